@@ -0,0 +1,57 @@
+import React from 'react';
+import { BellRing, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useI18n } from '@/hooks/use-i18n';
+import { useAlerts, useDeleteAlert } from '@/hooks/use-alerts';
+import { useSettings } from '@/hooks/use-settings';
+import { describeAlertRule } from '@/lib/alerts';
+import { formatYear } from '@/lib/format';
+import { displayName, gazetteer } from '@/lib/gazetteer';
+
+export const AlertsPanel: React.FC = () => {
+  const { data: alerts = [], isLoading } = useAlerts();
+  const { mutate: deleteAlert } = useDeleteAlert();
+  const { locale, t } = useI18n();
+  const [settings] = useSettings();
+
+  if (isLoading) return null;
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <BellRing className="h-4 w-4 text-primary" />
+        {t('alerts.title')}
+      </div>
+      {alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('alerts.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {alerts.map(rule => {
+            const entry = gazetteer.get(rule.locationId);
+            return (
+              <li key={rule.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{entry ? displayName(entry, locale) : rule.locationId}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeAlertRule(rule, locale, settings)}
+                    {rule.notifiedYear && ` · ${t('alerts.lastTriggered', { year: formatYear(locale, rule.notifiedYear) })}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title={t('alerts.remove')}
+                  onClick={() => deleteAlert(rule.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { useI18n } from '@/hooks/use-i18n';
+import { useConversations, useDeleteConversation, useRenameConversation } from '@/hooks/use-conversations';
+import type { ConversationSummary } from '@/lib/chat-store';
+import { formatDateTime } from '@/lib/format';
+
+interface ChatHistorySidebarProps {
+  /** Conversation shown in the chat, highlighted in the list */
+  activeId: string;
+}
+
+export const ChatHistorySidebar: React.FC<ChatHistorySidebarProps> = ({ activeId }) => {
+  const { data: conversations = [] } = useConversations();
+  const renameConversation = useRenameConversation();
+  const deleteConversation = useDeleteConversation();
+  const navigate = useNavigate();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<ConversationSummary | null>(null);
+
+  const { locale, t } = useI18n();
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      renameConversation.mutate({ id: editingId, title });
+    }
+    setEditingId(null);
+  };
+
+  const confirmDelete = () => {
+    if (!pendingDelete) return;
+    deleteConversation.mutate(pendingDelete.id);
+    // Deleting the open conversation starts a fresh one
+    if (pendingDelete.id === activeId) {
+      navigate('/');
+    }
+    setPendingDelete(null);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Button onClick={() => navigate('/')} className="w-full gap-2 gradient-water hover:opacity-90">
+          <Plus className="h-4 w-4" />
+          {t('sidebar.newChat')}
+        </Button>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{t('sidebar.history')}</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {conversations.length === 0 && (
+                <p className="px-2 py-1 text-sm text-muted-foreground">{t('sidebar.empty')}</p>
+              )}
+              {conversations.map(conversation => (
+                <SidebarMenuItem key={conversation.id}>
+                  {editingId === conversation.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton
+                        asChild
+                        isActive={conversation.id === activeId}
+                        title={formatDateTime(locale, conversation.updatedAt)}
+                      >
+                        <Link to={`/chat/${conversation.id}`}>
+                          <MessageSquare />
+                          <span>{conversation.title || t('sidebar.untitled')}</span>
+                        </Link>
+                      </SidebarMenuButton>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <SidebarMenuAction showOnHover>
+                            <MoreHorizontal />
+                          </SidebarMenuAction>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent side="right" align="start">
+                          <DropdownMenuItem onSelect={() => startRename(conversation)}>
+                            <Pencil className="h-4 w-4 mr-2" />
+                            {t('sidebar.rename')}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onSelect={() => setPendingDelete(conversation)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4 mr-2" />
+                            {t('sidebar.delete')}
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('sidebar.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('sidebar.deleteDescription', { title: pendingDelete?.title || t('sidebar.untitled') })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('sidebar.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>{t('sidebar.delete')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useI18n } from '@/hooks/use-i18n';
+import type { GroundwaterDataPoint } from '@/lib/groundwater-repository';
+import {
+  assessCompliance,
+  formatLimit,
+  waterStandards,
+  type ComplianceStatus,
+  type WaterStandard,
+} from '@/lib/water-standards';
+import { formatParameter } from '@/lib/groundwater-parameters';
+
+interface ComplianceCardProps {
+  point: GroundwaterDataPoint;
+  standard: WaterStandard;
+}
+
+const statusTextClasses: Record<ComplianceStatus, string> = {
+  acceptable: 'text-status-acceptable',
+  permissible: 'text-status-permissible',
+  unsafe: 'text-status-unsafe',
+};
+
+const statusBadgeClasses: Record<ComplianceStatus, string> = {
+  acceptable: 'border-transparent bg-status-acceptable text-white',
+  permissible: 'border-transparent bg-status-permissible text-white',
+  unsafe: 'border-transparent bg-status-unsafe text-white',
+};
+
+export const StatusBadge: React.FC<{ status: ComplianceStatus; className?: string }> = ({ status, className }) => {
+  const { t } = useI18n();
+  return <Badge className={cn(statusBadgeClasses[status], className)}>{t(`compliance.status.${status}`)}</Badge>;
+};
+
+/** A measured value coloured by its compliance status */
+export const StatusValue: React.FC<{ status?: ComplianceStatus | null; className?: string; children: React.ReactNode }> = ({
+  status,
+  className,
+  children,
+}) => {
+  const { t } = useI18n();
+  return (
+    <span className={cn(status && statusTextClasses[status], className)} title={status ? t(`compliance.status.${status}`) : undefined}>
+      {children}
+    </span>
+  );
+};
+
+export const ComplianceCard: React.FC<ComplianceCardProps> = ({ point, standard }) => {
+  const results = assessCompliance(point, standard);
+  const definition = waterStandards[standard];
+  const { t } = useI18n();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          {t('compliance.title', { year: point.year })}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">{t('compliance.classifiedAgainst', { reference: definition.reference })}</p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('compliance.parameter')}</TableHead>
+              <TableHead className="text-right">{t('compliance.measured')}</TableHead>
+              <TableHead className="text-right">{t('compliance.acceptable')}</TableHead>
+              <TableHead className="text-right">{t('compliance.permissible')}</TableHead>
+              <TableHead className="text-right">{t('compliance.status')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map(({ parameter, value, status, limits }) => (
+              <TableRow key={parameter}>
+                <TableCell className="font-medium">{t(`parameter.${parameter}.name`)}</TableCell>
+                <TableCell className="text-right font-semibold">
+                  <StatusValue status={status}>{formatParameter(parameter, value)}</StatusValue>
+                </TableCell>
+                <TableCell className="text-right">{formatLimit(parameter, limits.acceptable)}</TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {limits.permissible !== undefined ? formatLimit(parameter, limits.permissible) : t('compliance.noRelaxation')}
+                </TableCell>
+                <TableCell className="text-right">
+                  <StatusBadge status={status} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
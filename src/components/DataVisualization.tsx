@@ -1,94 +1,264 @@
-import React from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import React, { useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar, Cell, ComposedChart, Area, ErrorBar, ReferenceLine } from 'recharts';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { TrendingUp, Droplets, Activity } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { TrendingUp, Droplets, Activity, CloudRain } from 'lucide-react';
+import { useGroundwaterSeries } from '@/hooks/use-groundwater-series';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import type { ForecastMethod } from '@/lib/forecasting';
+import {
+  displayUnit,
+  formatLength,
+  formatLengthValue,
+  formatMeasurement,
+  formatMonth,
+  formatNumber,
+  formatReading,
+  formatYear,
+  lengthUnitLabel,
+  toLengthUnit,
+  type ConcentrationUnit,
+} from '@/lib/format';
+import { locationName } from '@/lib/gazetteer';
+import { forecastGroundwater, resolveHorizon } from '@/lib/groundwater-forecast';
+import type { Horizon, TimeRange } from '@/lib/intent-parser';
+import { monthlyCsv, yearlyCsv } from '@/lib/groundwater-export';
+import type { GroundwaterDataPoint, LocationSeries } from '@/lib/groundwater-repository';
+import { parameterIds, parameters, type ParameterId } from '@/lib/groundwater-parameters';
+import { classifyParameter, isStandardParameter, statusColor, waterStandards, type Limit, type WaterStandard } from '@/lib/water-standards';
+import { computeWqi, wqiCategoryStatus } from '@/lib/water-quality-index';
+import { levelMeasures } from '@/lib/water-level';
+import { ComplianceCard } from './ComplianceCard';
+import { WqiBreakdown } from './WqiBreakdown';
+import { ExportMenu } from './ExportMenu';
+import { SeasonalAnalysis } from './SeasonalAnalysis';
 
 interface DataVisualizationProps {
+  locationId: string;
   isPrediction?: boolean;
+  horizon?: Horizon;
+  timeRange?: TimeRange;
+  /** Tab shown first; defaults to the level trends */
+  initialTab?: string;
 }
 
-interface GroundwaterDataPoint {
-  year: string;
-  waterLevel: number;
-  quality: number;
-  tds: number;
-  predicted?: boolean;
+const FORECAST_METHODS: ForecastMethod[] = ['linear-seasonal', 'holt-winters'];
+
+const DEFAULT_PLOTTED_PARAMETERS: ParameterId[] = ['tds', 'fluoride', 'nitrate', 'arsenic'];
+
+interface ParameterChartProps {
+  id: ParameterId;
+  series: LocationSeries;
+  /** Location name in the UI language */
+  place: string;
+  /** Yearly points; forecast points carry TDS only and an error range for it */
+  data: Array<GroundwaterDataPoint & { tdsError?: number[] }>;
+  standard: WaterStandard;
+  concentrationUnit: ConcentrationUnit;
+  exportCsv: () => string;
 }
 
-// Sample groundwater data
-const historicalData: GroundwaterDataPoint[] = [
-  { year: '2019', waterLevel: 15.2, quality: 85, tds: 450 },
-  { year: '2020', waterLevel: 14.8, quality: 82, tds: 470 },
-  { year: '2021', waterLevel: 13.5, quality: 78, tds: 520 },
-  { year: '2022', waterLevel: 12.8, quality: 75, tds: 580 },
-  { year: '2023', waterLevel: 11.9, quality: 72, tds: 620 },
-  { year: '2024', waterLevel: 11.2, quality: 70, tds: 650 },
-];
-
-const predictiveData: GroundwaterDataPoint[] = [
-  ...historicalData,
-  { year: '2025', waterLevel: 10.5, quality: 68, tds: 680, predicted: true },
-  { year: '2026', waterLevel: 9.8, quality: 65, tds: 720, predicted: true },
-  { year: '2027', waterLevel: 9.2, quality: 62, tds: 760, predicted: true },
-  { year: '2028', waterLevel: 8.6, quality: 58, tds: 800, predicted: true },
-  { year: '2029', waterLevel: 8.1, quality: 55, tds: 840, predicted: true },
-];
-
-const monthlyData = [
-  { month: 'Jan', level: 11.5, rainfall: 2.3 },
-  { month: 'Feb', level: 11.3, rainfall: 1.8 },
-  { month: 'Mar', level: 10.8, rainfall: 0.5 },
-  { month: 'Apr', level: 10.2, rainfall: 0.2 },
-  { month: 'May', level: 9.8, rainfall: 0.1 },
-  { month: 'Jun', level: 10.5, rainfall: 45.2 },
-  { month: 'Jul', level: 12.8, rainfall: 125.6 },
-  { month: 'Aug', level: 13.2, rainfall: 98.4 },
-  { month: 'Sep', level: 12.5, rainfall: 67.3 },
-  { month: 'Oct', level: 11.8, rainfall: 23.1 },
-  { month: 'Nov', level: 11.4, rainfall: 8.7 },
-  { month: 'Dec', level: 11.6, rainfall: 4.2 },
-];
-
-export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPrediction = false }) => {
-  const data = isPrediction ? predictiveData : historicalData;
+const ParameterChart: React.FC<ParameterChartProps> = ({ id, series, place, data, standard, concentrationUnit, exportCsv }) => {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+  const definition = parameters[id];
+  const limits = isStandardParameter(id) ? waterStandards[standard].limits[id] : undefined;
+  const unit = displayUnit(definition.unit, concentrationUnit);
+  const title = `${t(`parameter.${id}.name`)}${unit ? ` (${unit})` : ''}`;
+  const colorOf = (value: number) => {
+    const status = isStandardParameter(id) ? classifyParameter(id, value, standard) : null;
+    return status ? statusColor(status) : 'hsl(var(--accent))';
+  };
+  // pH limits are bands, so they draw a line at each end
+  const limitLines = (limit: Limit | undefined, stroke: string) =>
+    limit === undefined
+      ? []
+      : (Array.isArray(limit) ? limit : [limit]).map((y) => (
+          <ReferenceLine key={`${stroke}-${y}`} y={y} stroke={stroke} strokeDasharray="4 4" ifOverflow="extendDomain" />
+        ));
+  const points = data.filter((point) => point[id] !== undefined);
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="text-base">{title}</CardTitle>
+          <p className="text-xs text-muted-foreground">{t(`parameter.${id}.description`)}</p>
+        </div>
+        <ExportMenu filename={`${series.locationId}-${id}`} csv={exportCsv} chartRef={chartRef} />
+      </CardHeader>
+      <CardContent ref={chartRef} data-export-chart={`${title}: ${place}`}>
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={points}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis dataKey="year" tickFormatter={(year) => formatYear(locale, year)} />
+            <YAxis domain={id === 'ph' ? definition.range : [0, 'auto']} tickFormatter={(value) => formatReading(locale, value)} />
+            <Tooltip
+              labelFormatter={(year) => formatYear(locale, year)}
+              formatter={(value) => [formatMeasurement(locale, Number(value), definition.unit, concentrationUnit), definition.shortName]}
+            />
+            {limitLines(limits?.acceptable, statusColor('permissible'))}
+            {limitLines(limits?.permissible, statusColor('unsafe'))}
+            <Bar dataKey={id}>
+              {points.map((point) => (
+                <Cell key={point.year} fill={colorOf(point[id])} fillOpacity={point.predicted ? 0.5 : 1} />
+              ))}
+              {id === 'tds' && points.some((point) => point.predicted) && (
+                <ErrorBar dataKey="tdsError" width={4} stroke="hsl(var(--foreground))" />
+              )}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const DataVisualization: React.FC<DataVisualizationProps> = ({ locationId, isPrediction = false, horizon, timeRange, initialTab = 'levels' }) => {
+  const { data: series, isLoading } = useGroundwaterSeries(locationId);
+  const [{ waterStandard, wqiMethod, forecastMethod, lengthUnit, concentrationUnit }, updateSettings] = useSettings();
+  const [plotted, setPlotted] = useState<ParameterId[]>(DEFAULT_PLOTTED_PARAMETERS);
+  const levelsChartRef = useRef<HTMLDivElement>(null);
+  const qualityChartRef = useRef<HTMLDivElement>(null);
+  const monthlyChartRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 p-4">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
+        <span className="text-sm text-muted-foreground">{t('common.loading')}</span>
+      </div>
+    );
+  }
+
+  const lastObservedYear = series?.yearly.length ? Number(series.yearly[series.yearly.length - 1].year) : undefined;
+  // Null when the history is too short to fit a trend to
+  const prediction = series && lastObservedYear !== undefined && isPrediction
+    ? forecastGroundwater(series, resolveHorizon(horizon, lastObservedYear), forecastMethod)
+    : null;
+
+  if (!series || lastObservedYear === undefined || (isPrediction && !prediction)) {
+    return (
+      <Card>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          {t('chart.noData')}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const place = locationName(series.locationId, series.name, locale);
+  const inRange = series.yearly.filter((point) =>
+    (timeRange?.from === undefined || Number(point.year) >= timeRange.from) &&
+    (timeRange?.to === undefined || Number(point.year) <= timeRange.to)
+  );
+  // Fall back to the full history when the requested years are not covered
+  const historicalData = inRange.length > 0 ? inRange : series.yearly;
+  const data = prediction
+    ? [
+        ...historicalData.map((point, index) =>
+          // Anchor the interval band on the last observation so it opens out from the line
+          index === historicalData.length - 1
+            ? { ...point, waterLevelRange: [point.waterLevel, point.waterLevel] as [number, number], tdsError: [0, 0] }
+            : point
+        ),
+        ...prediction.points.map((point) => ({
+          ...point,
+          tdsError: [point.tds - point.tdsRange[0], point.tdsRange[1] - point.tds],
+        })),
+      ]
+    : historicalData;
+  // Levels are plotted in the chosen unit; the data stays in metres
+  const levelData = data.map((point) => ({
+    ...point,
+    waterLevel: toLengthUnit(point.waterLevel, lengthUnit),
+    waterLevelRange: 'waterLevelRange' in point ? point.waterLevelRange.map((metres) => toLengthUnit(metres, lengthUnit)) : undefined,
+  }));
+  const monthlyData = series.monthly.slice(-12).map((point) => ({
+    ...point,
+    level: toLengthUnit(point.level, lengthUnit),
+    month: formatMonth(locale, point.month),
+  }));
+  const measure = series.levelMeasure;
+  const levelAxis = t('chart.waterLevelAxis', { unit: lengthUnitLabel(locale, lengthUnit), measure });
+  // Depths plot downwards so a rising water table still climbs the chart
+  const { reversedAxis } = levelMeasures[measure];
+  const formatLevel = (value: number) => formatLengthValue(locale, value, lengthUnit);
+  const formatYearTick = (year: string | number) => formatYear(locale, year);
+  const formatTick = (value: number) => formatNumber(locale, value);
+  const latest = historicalData[historicalData.length - 1];
+  const wqiData = [...historicalData, ...(prediction?.points ?? [])].map((point) => {
+    const wqi = computeWqi(point, wqiMethod, waterStandard);
+    return { year: point.year, wqi: wqi?.value, color: wqi ? statusColor(wqiCategoryStatus[wqi.category]) : undefined };
+  });
+  const latestWqi = computeWqi(latest, wqiMethod, waterStandard);
+  const availableParameters = parameterIds.filter((id) => series.yearly.some((point) => point[id] !== undefined));
+  const tdsColor = (tds: number) => statusColor(classifyParameter('tds', tds, waterStandard) ?? 'acceptable');
+  const exportYearly = () => yearlyCsv([{ ...series, yearly: historicalData }], prediction?.points);
+  const levelsTitle = prediction
+    ? t('chart.levelPrediction', { place, years: prediction.horizon })
+    : t('chart.levelTrends', { place });
 
   return (
     <div className="w-full space-y-4">
-      <Tabs defaultValue="levels" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+      <Tabs defaultValue={initialTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="levels" className="flex items-center gap-2">
             <TrendingUp className="h-4 w-4" />
-            Levels
+            {t('chart.tab.levels')}
           </TabsTrigger>
           <TabsTrigger value="quality" className="flex items-center gap-2">
             <Droplets className="h-4 w-4" />
-            Quality
+            {t('chart.tab.quality')}
           </TabsTrigger>
           <TabsTrigger value="monthly" className="flex items-center gap-2">
             <Activity className="h-4 w-4" />
-            Monthly
+            {t('chart.tab.monthly')}
+          </TabsTrigger>
+          <TabsTrigger value="seasonal" className="flex items-center gap-2">
+            <CloudRain className="h-4 w-4" />
+            {t('chart.tab.seasonal')}
           </TabsTrigger>
         </TabsList>
 
         <TabsContent value="levels" className="space-y-4">
           <Card>
-            <CardHeader>
+            <CardHeader className="flex-row flex-wrap items-center justify-between gap-2 space-y-0">
               <CardTitle className="flex items-center gap-2">
                 <TrendingUp className="h-5 w-5 text-primary" />
-                Groundwater Level Trends {isPrediction && '(5-Year Prediction)'}
+                {levelsTitle}
               </CardTitle>
+              <div className="flex items-center gap-2">
+                {prediction && (
+                  <Select value={forecastMethod} onValueChange={(value) => updateSettings({ forecastMethod: value as ForecastMethod })}>
+                    <SelectTrigger className="w-56 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FORECAST_METHODS.map((method) => (
+                        <SelectItem key={method} value={method}>{t(`chart.forecastMethod.${method}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <ExportMenu filename={`${series.locationId}-water-level`} csv={exportYearly} chartRef={levelsChartRef} />
+              </div>
             </CardHeader>
-            <CardContent>
+            <CardContent ref={levelsChartRef} data-export-chart={levelsTitle}>
               <ResponsiveContainer width="100%" height={300}>
-                <LineChart data={data}>
+                <ComposedChart data={levelData}>
                   <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                  <XAxis dataKey="year" />
-                  <YAxis label={{ value: 'Water Level (m)', angle: -90, position: 'insideLeft' }} />
+                  <XAxis dataKey="year" tickFormatter={formatYearTick} />
+                  <YAxis reversed={reversedAxis} tickFormatter={formatTick} label={{ value: levelAxis, angle: -90, position: 'insideLeft' }} />
                   <Tooltip 
+                    labelFormatter={formatYearTick}
                     formatter={(value, name) => [
-                      `${value}m`, 
-                      name === 'waterLevel' ? 'Water Level' : name
+                      Array.isArray(value) ? `${formatNumber(locale, Number(value[0]), 1)}–${formatLevel(Number(value[1]))}` : formatLevel(Number(value)),
+                      name === 'waterLevel' ? t('chart.waterLevel') : name
                     ]}
                     labelStyle={{ color: 'hsl(var(--foreground))' }}
                     contentStyle={{ 
@@ -98,15 +268,25 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
                     }}
                   />
                   <Legend />
+                  {prediction && (
+                    <Area
+                      type="monotone"
+                      dataKey="waterLevelRange"
+                      stroke="none"
+                      fill="hsl(var(--primary))"
+                      fillOpacity={0.15}
+                      name={t('chart.predictionInterval')}
+                    />
+                  )}
                   <Line 
                     type="monotone" 
                     dataKey="waterLevel" 
                     stroke="hsl(var(--primary))" 
                     strokeWidth={2}
                     dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2, r: 4 }}
-                    name="Water Level"
+                    name={t('chart.waterLevel')}
                   />
-                  {isPrediction && (
+                  {prediction && (
                     <Line 
                       type="monotone" 
                       dataKey="waterLevel" 
@@ -114,15 +294,15 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
                       strokeWidth={2}
                       strokeDasharray="5 5"
                       dot={(props) => {
-                        const isPredict = data[props.index]?.predicted;
+                        const isPredict = levelData[props.index]?.predicted;
                         return isPredict ? 
                           <circle cx={props.cx} cy={props.cy} r={4} fill="hsl(var(--secondary))" stroke="hsl(var(--secondary))" strokeWidth={2} /> : 
                           null;
                       }}
-                      name="Predicted Level"
+                      name={t('chart.predictedLevel')}
                     />
                   )}
-                </LineChart>
+                </ComposedChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
@@ -131,22 +311,26 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
         <TabsContent value="quality" className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <Card>
-              <CardHeader>
-                <CardTitle className="text-base">Water Quality Index</CardTitle>
+              <CardHeader className="flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-base">{t('chart.wqiTitle', { method: t(`wqi.method.${wqiMethod}.name`) })}</CardTitle>
+                <ExportMenu filename={`${series.locationId}-quality-index`} csv={exportYearly} chartRef={qualityChartRef} />
               </CardHeader>
-              <CardContent>
+              <CardContent ref={qualityChartRef} data-export-chart={t('chart.wqiExport', { place })}>
                 <ResponsiveContainer width="100%" height={200}>
-                  <LineChart data={data}>
+                  <LineChart data={wqiData}>
                     <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="year" />
-                    <YAxis domain={[0, 100]} />
-                    <Tooltip />
+                    <XAxis dataKey="year" tickFormatter={formatYearTick} />
+                    <YAxis domain={wqiMethod === 'ccme' ? [0, 100] : [0, 'auto']} tickFormatter={formatTick} />
+                    <Tooltip labelFormatter={formatYearTick} formatter={(value) => formatNumber(locale, Number(value))} />
                     <Line 
                       type="monotone" 
-                      dataKey="quality" 
+                      dataKey="wqi" 
+                      name="WQI"
                       stroke="hsl(var(--secondary))" 
                       strokeWidth={2}
-                      dot={{ fill: 'hsl(var(--secondary))', strokeWidth: 2, r: 3 }}
+                      dot={(props) => (
+                        <circle key={props.index} cx={props.cx} cy={props.cy} r={4} fill={wqiData[props.index]?.color ?? 'none'} stroke="none" />
+                      )}
                     />
                   </LineChart>
                 </ResponsiveContainer>
@@ -154,37 +338,66 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
             </Card>
 
             <Card>
-              <CardHeader>
-                <CardTitle className="text-base">TDS Levels (ppm)</CardTitle>
+              <CardHeader className="space-y-2">
+                <CardTitle className="text-base">{t('chart.parametersToPlot')}</CardTitle>
+                <p className="text-xs text-muted-foreground">
+                  {t('chart.parametersHint', { standard: waterStandards[waterStandard].name })}
+                </p>
               </CardHeader>
               <CardContent>
-                <ResponsiveContainer width="100%" height={200}>
-                  <BarChart data={data}>
-                    <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                    <XAxis dataKey="year" />
-                    <YAxis />
-                    <Tooltip />
-                    <Bar dataKey="tds" fill="hsl(var(--accent))" />
-                  </BarChart>
-                </ResponsiveContainer>
+                <ToggleGroup
+                  type="multiple"
+                  variant="outline"
+                  size="sm"
+                  value={plotted}
+                  onValueChange={(value) => setPlotted(value as ParameterId[])}
+                  className="flex-wrap justify-start"
+                >
+                  {availableParameters.map((id) => (
+                    <ToggleGroupItem key={id} value={id} title={t(`parameter.${id}.name`)} className="text-xs">
+                      {parameters[id].shortName}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
               </CardContent>
             </Card>
           </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {availableParameters
+              .filter((id) => plotted.includes(id))
+              .map((id) => (
+                <ParameterChart
+                  key={id}
+                  id={id}
+                  series={series}
+                  place={place}
+                  data={id === 'tds' ? data : historicalData}
+                  standard={waterStandard}
+                  concentrationUnit={concentrationUnit}
+                  exportCsv={exportYearly}
+                />
+              ))}
+          </div>
+
+          <WqiBreakdown point={latest} method={wqiMethod} standard={waterStandard} />
+          <ComplianceCard point={latest} standard={waterStandard} />
         </TabsContent>
 
         <TabsContent value="monthly" className="space-y-4">
           <Card>
-            <CardHeader>
-              <CardTitle>Monthly Water Level vs Rainfall</CardTitle>
+            <CardHeader className="flex-row items-center justify-between space-y-0">
+              <CardTitle>{t('chart.monthlyTitle')}</CardTitle>
+              <ExportMenu filename={`${series.locationId}-monthly`} csv={() => monthlyCsv(series)} chartRef={monthlyChartRef} />
             </CardHeader>
-            <CardContent>
+            <CardContent ref={monthlyChartRef} data-export-chart={t('chart.monthlyExport', { place })}>
               <ResponsiveContainer width="100%" height={300}>
                 <LineChart data={monthlyData}>
                   <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
                   <XAxis dataKey="month" />
-                  <YAxis yAxisId="left" label={{ value: 'Water Level (m)', angle: -90, position: 'insideLeft' }} />
-                  <YAxis yAxisId="right" orientation="right" label={{ value: 'Rainfall (mm)', angle: 90, position: 'insideRight' }} />
-                  <Tooltip />
+                  <YAxis yAxisId="left" reversed={reversedAxis} tickFormatter={formatTick} label={{ value: levelAxis, angle: -90, position: 'insideLeft' }} />
+                  <YAxis yAxisId="right" orientation="right" tickFormatter={formatTick} label={{ value: t('chart.rainfallAxis'), angle: 90, position: 'insideRight' }} />
+                  <Tooltip formatter={(value) => formatNumber(locale, Number(value))} />
                   <Legend />
                   <Line 
                     yAxisId="left"
@@ -192,7 +405,7 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
                     dataKey="level" 
                     stroke="hsl(var(--primary))" 
                     strokeWidth={2}
-                    name="Water Level (m)"
+                    name={levelAxis}
                   />
                   <Line 
                     yAxisId="right"
@@ -200,35 +413,46 @@ export const DataVisualization: React.FC<DataVisualizationProps> = ({ isPredicti
                     dataKey="rainfall" 
                     stroke="hsl(var(--secondary))" 
                     strokeWidth={2}
-                    name="Rainfall (mm)"
+                    name={t('chart.rainfallAxis')}
                   />
                 </LineChart>
               </ResponsiveContainer>
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="seasonal">
+          <SeasonalAnalysis series={series} />
+        </TabsContent>
       </Tabs>
 
       {/* Key Insights */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="gradient-water text-primary-foreground">
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold">11.2m</div>
-            <div className="text-sm opacity-90">Current Level</div>
+            <div className="text-2xl font-bold">{formatLength(locale, latest.waterLevel, lengthUnit)}</div>
+            <div className="text-sm opacity-90">{t('chart.currentLevel', { measure })}</div>
           </CardContent>
         </Card>
         
-        <Card className="gradient-earth text-secondary-foreground">
+        <Card
+          className="gradient-earth text-secondary-foreground"
+          style={latestWqi ? { background: statusColor(wqiCategoryStatus[latestWqi.category]) } : undefined}
+        >
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold">70%</div>
-            <div className="text-sm opacity-90">Quality Index</div>
+            <div className="text-2xl font-bold">{latestWqi ? formatNumber(locale, latestWqi.value) : '–'}</div>
+            <div className="text-sm opacity-90">
+              WQI{latestWqi && ` · ${t(`wqi.category.${latestWqi.category}`)}`}
+            </div>
           </CardContent>
         </Card>
         
-        <Card className="bg-accent text-accent-foreground">
+        <Card className="text-white" style={{ backgroundColor: tdsColor(latest.tds) }}>
           <CardContent className="p-4 text-center">
-            <div className="text-2xl font-bold">650</div>
-            <div className="text-sm opacity-90">TDS (ppm)</div>
+            <div className="text-2xl font-bold">{formatNumber(locale, latest.tds)}</div>
+            <div className="text-sm opacity-90">
+              {t('chart.tdsStandard', { unit: concentrationUnit, standard: waterStandards[waterStandard].name })}
+            </div>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,207 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Layers } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useI18n } from '@/hooks/use-i18n';
+import { slugify } from '@/lib/export';
+import {
+  districtFeatures,
+  districtSource,
+  filterDistricts,
+  stressCategories,
+  stressColor,
+  stateName,
+  type DistrictAssessment,
+  type DistrictFeature,
+} from '@/lib/district-stress';
+import { districtCsv } from '@/lib/groundwater-export';
+import type { MessageId } from '@/lib/i18n';
+import type { StressCategory } from '@/lib/intent-parser';
+import { ExportMenu } from './ExportMenu';
+
+interface DistrictChoroplethProps {
+  /** Limits the map and table to one state; all assessed states when absent */
+  state?: string;
+  /** Category to highlight first */
+  category?: StressCategory;
+}
+
+type SortKey = 'name' | 'state' | 'stageOfExtraction' | 'extractableRecharge' | 'extraction';
+
+const MAP_WIDTH = 400;
+
+// Fits the features into a MAP_WIDTH-wide box with an equirectangular projection
+function projectFeatures(features: DistrictFeature[]) {
+  if (features.length === 0) return { paths: [], viewBox: `0 0 ${MAP_WIDTH} ${MAP_WIDTH}` };
+  const points = features.flatMap((feature) => feature.geometry.coordinates[0]);
+  const lons = points.map(([lon]) => lon);
+  const lats = points.map(([, lat]) => lat);
+  const [west, east, south, north] = [Math.min(...lons), Math.max(...lons), Math.min(...lats), Math.max(...lats)];
+  const xScale = Math.cos((((north + south) / 2) * Math.PI) / 180);
+  const scale = MAP_WIDTH / ((east - west) * xScale);
+  const height = Math.ceil((north - south) * scale);
+  const paths = features.map((feature) => ({
+    id: feature.properties.id,
+    d: feature.geometry.coordinates[0]
+      .map(([lon, lat], index) => `${index === 0 ? 'M' : 'L'}${((lon - west) * xScale * scale).toFixed(1)},${((north - lat) * scale).toFixed(1)}`)
+      .join(' ') + ' Z',
+  }));
+  return { paths, viewBox: `0 0 ${MAP_WIDTH} ${height}` };
+}
+
+const columns: Array<{ key: SortKey; label: MessageId; numeric?: boolean }> = [
+  { key: 'name', label: 'districts.district' },
+  { key: 'state', label: 'districts.state' },
+  { key: 'stageOfExtraction', label: 'districts.stage', numeric: true },
+  { key: 'extractableRecharge', label: 'districts.recharge', numeric: true },
+  { key: 'extraction', label: 'districts.extraction', numeric: true },
+];
+
+export const DistrictChoropleth: React.FC<DistrictChoroplethProps> = ({ state, category }) => {
+  const [highlighted, setHighlighted] = useState<StressCategory | undefined>(category);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'stageOfExtraction', descending: true });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const { locale, t } = useI18n();
+
+  const inScope = useMemo(() => filterDistricts({ state }), [state]);
+  const byId = useMemo(() => new Map(inScope.map((district) => [district.id, district])), [inScope]);
+  const map = useMemo(
+    () => projectFeatures(districtFeatures.filter((feature) => byId.has(feature.properties.id))),
+    [byId]
+  );
+
+  const rows = useMemo(() => {
+    const listed = highlighted ? inScope.filter((district) => district.category === highlighted) : inScope;
+    const direction = sort.descending ? -1 : 1;
+    return [...listed].sort((a, b) => {
+      const [x, y] = [a[sort.key], b[sort.key]];
+      return direction * (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y)));
+    });
+  }, [inScope, highlighted, sort]);
+
+  if (inScope.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          {t('districts.unavailable')}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({ key, descending: current.key === key ? !current.descending : key !== 'name' && key !== 'state' }));
+  const sortIcon = (key: SortKey) =>
+    sort.key !== key ? <ArrowUpDown className="h-3 w-3" /> : sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />;
+  const faded = (district: DistrictAssessment) => highlighted !== undefined && district.category !== highlighted;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row flex-wrap items-start justify-between gap-2 space-y-0">
+        <div className="space-y-1">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Layers className="h-5 w-5 text-primary" />
+            {state ? t('districts.titleState', { state: stateName(state, locale) }) : t('districts.title')}
+          </CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {t('districts.subtitle', { year: districtSource.assessmentYear })}
+          </p>
+        </div>
+        <ExportMenu filename={`districts-${slugify(state ?? 'all')}`} csv={() => districtCsv(rows)} />
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={highlighted ?? ''}
+          onValueChange={(value) => setHighlighted((value || undefined) as StressCategory | undefined)}
+          className="flex-wrap justify-start"
+        >
+          {stressCategories.map((item) => (
+            <ToggleGroupItem key={item} value={item} className="gap-1.5 text-xs">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: stressColor(item) }} />
+              {t(`stress.category.${item}`)} ({inScope.filter((district) => district.category === item).length})
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <svg viewBox={map.viewBox} className="w-full h-auto max-h-96" role="img" aria-label={t('districts.mapLabel')}>
+            {map.paths.map(({ id, d }) => {
+              const district = byId.get(id);
+              return (
+                <path
+                  key={id}
+                  d={d}
+                  fill={stressColor(district.category)}
+                  fillOpacity={faded(district) ? 0.2 : hoveredId === id ? 1 : 0.85}
+                  stroke="hsl(var(--card))"
+                  strokeWidth={hoveredId === id ? 2 : 0.75}
+                  onMouseEnter={() => setHoveredId(id)}
+                  onMouseLeave={() => setHoveredId(null)}
+                >
+                  <title>{`${district.name}: ${district.stageOfExtraction}% (${t(`stress.category.${district.category}`)})`}</title>
+                </path>
+              );
+            })}
+          </svg>
+
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {columns
+                    .filter((column) => !(state && column.key === 'state'))
+                    .map((column) => (
+                      <TableHead key={column.key} className={cn(column.numeric && 'text-right')}>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto gap-1 px-1 py-0.5 text-xs font-medium"
+                          onClick={() => toggleSort(column.key)}
+                        >
+                          {t(column.label)}
+                          {sortIcon(column.key)}
+                        </Button>
+                      </TableHead>
+                    ))}
+                  <TableHead className="text-right">{t('districts.category')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((district) => (
+                  <TableRow
+                    key={district.id}
+                    className={cn(hoveredId === district.id && 'bg-muted')}
+                    onMouseEnter={() => setHoveredId(district.id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                  >
+                    <TableCell className="font-medium">{district.name}</TableCell>
+                    {!state && <TableCell>{stateName(district.state, locale)}</TableCell>}
+                    <TableCell className="text-right font-semibold">{district.stageOfExtraction}%</TableCell>
+                    <TableCell className="text-right">{district.extractableRecharge}</TableCell>
+                    <TableCell className="text-right">{district.extraction}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge className="border-transparent text-white" style={{ backgroundColor: stressColor(district.category) }}>
+                        {t(`stress.category.${district.category}`)}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {t('districts.bands')}
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Download, FileSpreadsheet, Image } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/sonner";
+import { useI18n } from '@/hooks/use-i18n';
+import { downloadChart, downloadCsv, type ChartImageFormat } from '@/lib/export';
+
+interface ExportMenuProps {
+  /** Base file name without extension */
+  filename: string;
+  /** Builds the CSV of the data behind the chart */
+  csv: () => string;
+  /** Element containing the chart to export as an image */
+  chartRef?: React.RefObject<HTMLElement>;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ filename, csv, chartRef }) => {
+  const { t } = useI18n();
+
+  const exportChart = async (format: ChartImageFormat) => {
+    if (!chartRef?.current) return;
+    try {
+      await downloadChart(chartRef.current, format, filename);
+    } catch (error) {
+      console.error('Chart export failed:', error);
+      toast.error(t('export.failed'));
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-8 w-8" title={t('export.title')}>
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => downloadCsv(csv(), `${filename}.csv`)}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          {t('export.csv')}
+        </DropdownMenuItem>
+        {chartRef && (
+          <>
+            <DropdownMenuItem onSelect={() => exportChart('png')}>
+              <Image className="h-4 w-4 mr-2" />
+              {t('export.png')}
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => exportChart('svg')}>
+              <Image className="h-4 w-4 mr-2" />
+              {t('export.svg')}
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
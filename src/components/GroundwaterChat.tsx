@@ -1,177 +1,166 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Mic, MicOff, Send, Globe, BarChart3, Droplets, TrendingUp } from 'lucide-react';
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Mic, MicOff, Send, Globe, BarChart3, Droplets, TrendingUp, Volume2, VolumeX, Square, Headphones, FileDown, MapIcon } from 'lucide-react';
 import { cn } from "@/lib/utils";
 import { DataVisualization } from './DataVisualization';
-import { LocationComparison } from './LocationComparison';
-
-// Simple type declaration for speech recognition
-declare global {
-  interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
-  }
-}
-
-interface Message {
-  id: string;
-  text: string;
-  isUser: boolean;
-  timestamp: Date;
-  data?: any;
-  showChart?: boolean;
-  showComparison?: boolean;
-  suggestions?: string[];
-}
+import { LocationComparison, MAX_COMPARED_LOCATIONS } from './LocationComparison';
+import { SettingsMenu } from './SettingsMenu';
+import { AlertsPanel } from './AlertsPanel';
+import { LocationMap } from './LocationMap';
+import { DistrictChoropleth } from './DistrictChoropleth';
+import { SampleImportDialog } from './SampleImportDialog';
+import { UploadedSamplesPanel } from './UploadedSamplesPanel';
+import { DEFAULT_LOCATION_ID, groundwaterRepository } from '@/lib/groundwater-repository';
+import { groundwaterSeriesQuery, useGroundwaterLocations } from '@/hooks/use-groundwater-series';
+import { forecastGroundwater, resolveHorizon } from '@/lib/groundwater-forecast';
+import { KeywordIntentParser, type IntentParser } from '@/lib/intent-parser';
+import { displayName, gazetteer, locationName } from '@/lib/gazetteer';
+import { formatList, localeNames, locales, speechTag, translator, type Locale, type MessageId } from '@/lib/i18n';
+import { formatLength, formatMeasurement, formatTimestamp, formatYear } from '@/lib/format';
+import { detectLanguage } from '@/lib/language-detection';
+import { findVoice } from '@/lib/speech-synthesis';
+import { stopPhrases, wakePhrases } from '@/lib/voice-conversation';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useSpeechSynthesis } from '@/hooks/use-speech-synthesis';
+import { useVoiceConversation } from '@/hooks/use-voice-conversation';
+import { useConversation, useSaveMessages } from '@/hooks/use-conversations';
+import { alertsQuery, useAddAlerts, useDeleteAlert } from '@/hooks/use-alerts';
+import { samplesQuery } from '@/hooks/use-samples';
+import { alertRulesFor, describeAlertRule, evaluateAlert, formatAlertValue } from '@/lib/alerts';
+import { assessCompliance, describeCompliance, waterStandards } from '@/lib/water-standards';
+import { computeWqi } from '@/lib/water-quality-index';
+import { analyseSeasons, describeSeasons } from '@/lib/seasonal-analysis';
+import { describeSamples, filterSamples } from '@/lib/uploaded-samples';
+import type { MapColorMode } from '@/lib/location-map';
+import type { ChatMessage } from '@/lib/chat-store';
+import { chartToSvg, downloadBlob, downloadCsv, slugify } from '@/lib/export';
+import { districtCsv, samplesCsv, yearlyCsv } from '@/lib/groundwater-export';
+import { describeDistrictStress, filterDistricts, matchState } from '@/lib/district-stress';
+import { buildPdfReport } from '@/lib/pdf-report';
+import { toast } from "@/components/ui/sonner";
 
 interface LocationData {
   latitude: number;
   longitude: number;
   city?: string;
   state?: string;
+  /** Nearest gazetteer place that has groundwater data */
+  locationId?: string;
+  distanceKm?: number;
 }
 
 interface GroundwaterChatProps {
-  language: 'en' | 'hi';
-  onLanguageChange: (lang: 'en' | 'hi') => void;
+  /** IndexedDB id of the conversation; a new id starts an empty chat */
+  conversationId: string;
 }
 
-const translations = {
-  en: {
-    title: "Groundwater Insights",
-    subtitle: "AI-powered groundwater quality analysis",
-    placeholder: "Ask about groundwater quality in your area...",
-    voiceTooltip: "Click to speak",
-    send: "Send",
-    listening: "Listening...",
-    processing: "Processing...",
-    micNotSupported: "Voice input not supported on this browser",
-    micPermissionNeeded: "Please allow microphone access",
-    sampleQueries: [
-      "Show groundwater quality in Delhi",
-      "Compare water levels between Mumbai and Pune",
-      "Predict water levels for next 5 years in Bangalore"
-    ]
-  },
-  hi: {
-    title: "भूजल अंतर्दृष्टि",
-    subtitle: "AI-संचालित भूजल गुणवत्ता विश्लेषण",
-    placeholder: "अपने क्षेत्र में भूजल गुणवत्ता के बारे में पूछें...",
-    voiceTooltip: "बोलने के लिए क्लिक करें",
-    send: "भेजें",
-    listening: "सुन रहा है...",
-    processing: "प्रसंस्करण...",
-    micNotSupported: "इस ब्राउज़र पर वॉइस इनपुट समर्थित नहीं है",
-    micPermissionNeeded: "कृपया माइक्रोफोन की अनुमति दें",
-    sampleQueries: [
-      "दिल्ली में भूजल गुणवत्ता दिखाएं",
-      "मुंबई और पुणे के बीच पानी के स्तर की तुलना करें",
-      "बैंगलोर में अगले 5 साल के लिए पानी के स्तर की भविष्यवाणी करें"
-    ]
-  }
-};
-
-export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLanguageChange }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const DEFAULT_COMPARISON_IDS = ['delhi', 'mumbai'];
+
+const intentParser: IntentParser = new KeywordIntentParser(
+  (text) => gazetteer.resolve(text).map(match => match.entry.id)
+);
+
+// Suggestions are stored as display text, so match the chip in any language
+const isSuggestion = (id: MessageId, suggestion: string) =>
+  locales.some(locale => translator(locale)(id) === suggestion);
+
+export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ conversationId }) => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputValue, setInputValue] = useState('');
-  const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [userLocation, setUserLocation] = useState<LocationData | null>(null);
   const [locationPermission, setLocationPermission] = useState<'pending' | 'granted' | 'denied'>('pending');
-  const recognitionRef = useRef<any>(null);
+  const [extendingMessageId, setExtendingMessageId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showMap, setShowMap] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const chatAreaRef = useRef<HTMLDivElement>(null);
+  const { data: availableLocations = [] } = useGroundwaterLocations();
+  const queryClient = useQueryClient();
+  const [settings, updateSettings] = useSettings();
+  const { data: savedConversation, isSuccess: conversationLoaded } = useConversation(conversationId);
+  const { mutate: saveMessages } = useSaveMessages();
+  const { mutateAsync: addAlerts } = useAddAlerts();
+  const { mutateAsync: deleteAlert } = useDeleteAlert();
+  // Messages as last read from or written to storage, so opening a chat does not re-save it
+  const persistedRef = useRef<ChatMessage[] | null>(null);
+  const { locale, t, setLocale } = useI18n();
+  const speech = useSpeechSynthesis(speechTag(locale));
+  const sampleQueries = [t('chat.sampleQuery1'), t('chat.sampleQuery2'), t('chat.sampleQuery3')];
 
-  const t = translations[language];
-
-  // Initialize speech recognition
-  useEffect(() => {
-    console.log('Initializing speech recognition...');
-    if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-      const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
-      recognitionRef.current = new SpeechRecognition();
-      recognitionRef.current.continuous = false;
-      recognitionRef.current.interimResults = false;
-      recognitionRef.current.lang = language === 'hi' ? 'hi-IN' : 'en-US';
-
-      recognitionRef.current.onstart = () => {
-        console.log('Speech recognition started');
-        setIsListening(true);
-      };
-
-      recognitionRef.current.onresult = (event) => {
-        console.log('Speech recognition result:', event.results);
-        const transcript = event.results[0][0].transcript;
-        console.log('Transcript:', transcript);
-        setInputValue(transcript);
-        setIsListening(false);
-      };
-
-      recognitionRef.current.onerror = (event) => {
-        console.error('Speech recognition error:', event.error);
-        setIsListening(false);
-
-        // Show user-friendly error message with troubleshooting tips
-        let errorMessage = '';
-        switch (event.error) {
-          case 'not-allowed':
-            errorMessage = language === 'hi'
-              ? 'माइक्रोफोन की अनुमति दें'
-              : 'Please allow microphone access in your browser settings.';
-            break;
-          case 'no-speech':
-            errorMessage = language === 'hi'
-              ? 'कोई आवाज नहीं सुनी गई। कृपया सुनिश्चित करें कि आपका माइक्रोफोन चालू है, अनुमति दी गई है, और स्पष्ट बोलें।'
-              : 'No speech detected. Please make sure your microphone is working, not muted, and you are speaking clearly. Check browser permissions and try again.';
-            break;
-          default:
-            errorMessage = language === 'hi'
-              ? 'वॉइस रिकॉग्निशन में समस्या'
-              : 'Voice recognition error.';
-        }
-
-        // Add error message to chat
-        const errorMsg: Message = {
-          id: Date.now().toString(),
-          text: errorMessage,
-          isUser: false,
-          timestamp: new Date()
-        };
-        setMessages(prev => [...prev, errorMsg]);
-      };
+  const addBotMessage = (text: string) => {
+    const botMessage: ChatMessage = {
+      id: Date.now().toString(),
+      text,
+      isUser: false,
+      timestamp: new Date()
+    };
+    setMessages(prev => [...prev, botMessage]);
+  };
 
-      recognitionRef.current.onend = () => {
-        console.log('Speech recognition ended');
-        setIsListening(false);
-      };
+  // Show user-friendly error message with troubleshooting tips
+  const handleVoiceError = (error: string) => {
+    switch (error) {
+      case 'not-allowed':
+        addBotMessage(t('chat.voiceError.notAllowed'));
+        break;
+      case 'no-speech':
+        addBotMessage(t('chat.voiceError.noSpeech'));
+        break;
+      case 'model-unavailable':
+        addBotMessage(t('chat.voiceError.modelUnavailable'));
+        break;
+      case 'start-failed':
+        addBotMessage(t('chat.voiceError.startFailed'));
+        break;
+      default:
+        addBotMessage(t('chat.voiceError.other'));
+    }
+  };
 
-      // Add detailed event logging for debugging
-      recognitionRef.current.onaudiostart = () => {
-        console.log('onaudiostart: Audio capturing started');
-      };
-      recognitionRef.current.onsoundstart = () => {
-        console.log('onsoundstart: Sound has been detected');
-      };
-      recognitionRef.current.onspeechstart = () => {
-        console.log('onspeechstart: Speech has been detected');
-      };
-      recognitionRef.current.onspeechend = () => {
-        console.log('onspeechend: Speech has stopped being detected');
-      };
-      recognitionRef.current.onsoundend = () => {
-        console.log('onsoundend: Sound has stopped being detected');
-      };
-      recognitionRef.current.onaudioend = () => {
-        console.log('onaudioend: Audio capturing ended');
-      };
+  const voice = useVoiceConversation({
+    backend: settings.recognizer,
+    lang: speechTag(locale),
+    phraseLanguage: locale,
+    // Hands-free answers straight away; push-to-talk leaves the text for the user to check
+    onTranscript: (transcript, handsFree) => handsFree ? sendMessage(transcript, true) : setInputValue(transcript),
+    onError: handleVoiceError
+  });
+  const isListening = voice.state.phase === 'listening';
 
-      console.log('Speech recognition initialized successfully');
-    } else {
-      console.error('Speech recognition not supported');
+  // Restore once; later refetches (after a rename, say) must not replace live messages
+  useEffect(() => {
+    if (!conversationLoaded || persistedRef.current) return;
+    persistedRef.current = savedConversation?.messages ?? [];
+    if (savedConversation) {
+      setMessages(savedConversation.messages);
     }
-  }, [language]);
+  }, [conversationLoaded, savedConversation]);
+
+  // A chat is only worth keeping once the user has asked something
+  useEffect(() => {
+    if (!persistedRef.current || messages === persistedRef.current) return;
+    if (!messages.some(message => message.isUser)) return;
+    persistedRef.current = messages;
+    saveMessages({ id: conversationId, messages });
+  }, [messages, conversationId, saveMessages]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -193,288 +182,406 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
     }
 
     navigator.geolocation.getCurrentPosition(
-      (position) => {
-        const location: LocationData = {
+      async (position) => {
+        const coords = {
           latitude: position.coords.latitude,
           longitude: position.coords.longitude
         };
+        const dataLocationIds = new Set((await groundwaterRepository.listLocations()).map(l => l.id));
+        const nearest = gazetteer.nearest(coords, entry => dataLocationIds.has(entry.id));
+        const location: LocationData = {
+          ...coords,
+          city: nearest?.item.name,
+          state: nearest?.item.state,
+          locationId: nearest?.item.id,
+          distanceKm: nearest ? Math.round(nearest.distanceKm) : undefined
+        };
         setUserLocation(location);
         setLocationPermission('granted');
         
         // Add welcome message with location
-        const welcomeMessage: Message = {
+        const welcomeMessage: ChatMessage = {
           id: Date.now().toString(),
-          text: language === 'hi' 
-            ? `आपका स्थान मिल गया! अब मैं आपके क्षेत्र के लिए भूजल की जानकारी प्रदान कर सकता हूं।`
-            : `Location found! I can now provide groundwater information for your area.`,
+          text: nearest
+            ? t('chat.locationFoundNearest', { place: displayName(nearest.item, locale), distance: location.distanceKm })
+            : t('chat.locationFound'),
           isUser: false,
           timestamp: new Date(),
           suggestions: [
-            language === 'hi' ? 'मेरे क्षेत्र में पानी की गुणवत्ता कैसी है?' : 'How is water quality in my area?',
-            language === 'hi' ? 'पानी का स्तर दिखाएं' : 'Show water levels',
-            language === 'hi' ? '5 साल की भविष्यवाणी' : '5-year prediction'
+            t('chat.suggest.myAreaQuality'),
+            t('chat.suggest.showLevels'),
+            t('chat.suggest.fiveYearPrediction')
           ]
         };
-        setMessages([welcomeMessage]);
+        // A restored conversation already has its history
+        setMessages(prev => prev.length ? prev : [welcomeMessage]);
       },
       (error) => {
         setLocationPermission('denied');
-        const errorMessage: Message = {
+        const errorMessage: ChatMessage = {
           id: Date.now().toString(),
-          text: language === 'hi'
-            ? 'स्थान की अनुमति नहीं मिली। आप अभी भी किसी भी स्थान के बारे में पूछ सकते हैं।'
-            : 'Location permission denied. You can still ask about any location.',
+          text: t('chat.locationDenied'),
           isUser: false,
           timestamp: new Date(),
           suggestions: [
-            language === 'hi' ? 'दिल्ली में पानी की गुणवत्ता' : 'Water quality in Delhi',
-            language === 'hi' ? 'मुंबई और पुणे की तुलना' : 'Compare Mumbai and Pune',
-            language === 'hi' ? 'बैंगलोर का डेटा' : 'Bangalore data'
+            t('chat.suggest.delhiQuality'),
+            t('chat.suggest.compareMumbaiPune'),
+            t('chat.suggest.bangaloreData')
           ]
         };
-        setMessages([errorMessage]);
+        setMessages(prev => prev.length ? prev : [errorMessage]);
       }
     );
   };
 
-  const startListening = () => {
-    console.log('Start listening clicked');
-    
-    if (!recognitionRef.current) {
+  // Voice needs a recognizer and, outside localhost, a secure origin
+  const canUseVoice = () => {
+    if (!voice.supported) {
       console.error('Speech recognition not initialized');
-      const errorMsg: Message = {
-        id: Date.now().toString(),
-        text: language === 'hi' 
-          ? 'वॉइस रिकॉग्निशन उपलब्ध नहीं है' 
-          : 'Voice recognition not available',
-        isUser: false,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMsg]);
-      return;
+      addBotMessage(t('chat.voiceUnavailable'));
+      return false;
     }
 
-    // Check if we're on HTTPS (required for speech recognition)
     if (location.protocol !== 'https:' && location.hostname !== 'localhost') {
       console.error('HTTPS required for speech recognition');
-      const errorMsg: Message = {
-        id: Date.now().toString(),
-        text: language === 'hi' 
-          ? 'HTTPS कनेक्शन की आवश्यकता' 
-          : 'HTTPS connection required for voice',
-        isUser: false,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      addBotMessage(t('chat.httpsRequired'));
+      return false;
+    }
+
+    return true;
+  };
+
+  const startListening = () => {
+    if (isListening) {
+      voice.cancel();
       return;
     }
+    // Stop reading the previous reply so it is not picked up by the microphone
+    speech.stop();
+    if (canUseVoice()) {
+      voice.pushToTalk();
+    }
+  };
 
-    try {
-      console.log('Starting speech recognition...');
-      recognitionRef.current.start();
-    } catch (error) {
-      console.error('Error starting speech recognition:', error);
-      setIsListening(false);
-      const errorMsg: Message = {
-        id: Date.now().toString(),
-        text: language === 'hi' 
-          ? 'वॉइस रिकॉग्निशन शुरू नहीं हो सका' 
-          : 'Could not start voice recognition',
-        isUser: false,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+  const toggleHandsFree = () => {
+    if (voice.state.handsFree) {
+      voice.setHandsFree(false);
+      speech.stop();
+      return;
+    }
+    speech.stop();
+    if (canUseVoice()) {
+      voice.setHandsFree(true);
     }
   };
 
-  const generateResponse = async (userMessage: string): Promise<Message> => {
+  // Answers in the language of the question, which need not be the interface language
+  const generateResponse = async (userMessage: string, locale: Locale): Promise<ChatMessage> => {
     await new Promise(resolve => setTimeout(resolve, 1000));
 
-    const lowerMessage = userMessage.toLowerCase();
+    const t = translator(locale);
+    const intent = intentParser.parse(userMessage);
+    const userPlaceId = userLocation?.locationId;
+    // "My area" questions, and questions that name no place, are answered for the place nearest the user
+    const useUserPlace = userPlaceId && (intent.usesUserLocation || intent.locations.length === 0);
+    const foundCities = useUserPlace && !intent.locations.includes(userPlaceId)
+      ? [userPlaceId, ...intent.locations]
+      : intent.locations;
+    const locationId = foundCities[0] ?? DEFAULT_LOCATION_ID;
+    const cityNames = foundCities.map(id => {
+      const name = displayName(gazetteer.get(id), locale);
+      if (id !== userPlaceId) return name;
+      return t('chat.yourAreaNamed', { place: name, distance: userLocation.distanceKm });
+    });
+    const area = userLocation ? t('chat.yourArea') : t('chat.thisArea');
+    const places = cityNames.length > 0 ? formatList(locale, cityNames) : area;
 
-    // Simple city extraction (expand this list as needed)
-    const knownCities = [
-      'delhi', 'mumbai', 'pune', 'bangalore', 'bengaluru', 'chennai', 'kolkata', 'hyderabad', 'ahmedabad', 'jaipur', 'lucknow', 'kanpur', 'nagpur', 'indore', 'bhopal', 'patna', 'vadodara', 'ludhiana', 'agra', 'nashik', 'faridabad', 'meerut', 'rajkot', 'varanasi', 'srinagar', 'aurangabad', 'dhanbad', 'amritsar', 'navi mumbai', 'allahabad', 'ranchi', 'howrah', 'coimbatore', 'jabalpur', 'gwalior', 'vijayawada', 'jodhpur', 'madurai', 'raipur', 'kota', 'guwahati', 'chandigarh', 'solapur', 'hubli', 'mysore', 'tiruchirappalli', 'bareilly', 'aligarh', 'tiruppur', 'moradabad', 'jalandhar', 'bhubaneswar', 'salem', 'warangal', 'ghaziabad', 'thiruvananthapuram', 'guntur', 'bhiwandi', 'saharanpur', 'gorakhpur', 'bikaner', 'amravati', 'noida', 'jamshedpur', 'bhilai', 'cuttack', 'firozabad', 'kochi', 'nellore', 'bhavnagar', 'dehradun', 'durgapur', 'asansol', 'rourkela', 'nanded', 'kolhapur', 'ajmer', 'akola', 'gulbarga', 'jamnagar', 'ujjain', 'loni', 'siliguri', 'jhansi', 'ulhasnagar', 'nellore', 'jammu', 'sangli', 'mangalore', 'europe', 'usa', 'india'
-    ];
-    const foundCities = knownCities.filter(city => lowerMessage.includes(city));
+    switch (intent.kind) {
+      case 'quality': {
+        const series = await queryClient.fetchQuery(groundwaterSeriesQuery(locationId));
+        const latest = series?.yearly[series.yearly.length - 1];
+        const standard = waterStandards[settings.waterStandard].name;
+        const wqi = latest && computeWqi(latest, settings.wqiMethod, settings.waterStandard);
+        const text = [
+          t('chat.quality.intro', { place: places }),
+          wqi && t('chat.quality.wqi', {
+            method: t(`wqi.method.${wqi.method}.name`).toLocaleLowerCase(locale),
+            value: wqi.value,
+            category: t(`wqi.category.${wqi.category}`).toLocaleLowerCase(locale)
+          }),
+          latest && t('chat.quality.readings', {
+            standard,
+            year: latest.year,
+            summary: describeCompliance(assessCompliance(latest, settings.waterStandard), locale)
+          })
+        ];
+        return {
+          id: Date.now().toString(),
+          text: text.filter(Boolean).join(' '),
+          isUser: false,
+          timestamp: new Date(),
+          showChart: true,
+          data: { locationId, timeRange: intent.timeRange },
+          suggestions: [
+            t('chat.suggest.levelTrends'),
+            t('chat.suggest.compareOthers'),
+            t('chat.suggest.futurePredictions')
+          ]
+        };
+      }
 
-    // If user asks about groundwater quality for a specific city
-    if (foundCities.length > 0 && (lowerMessage.includes('quality') || lowerMessage.includes('गुणवत्ता'))) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? `${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')} के लिए भूजल गुणवत्ता डेटा। डेटा से पता चलता है कि पानी की गुणवत्ता अच्छी है।`
-          : `Groundwater quality data for ${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')}. The data shows good water quality with acceptable TDS levels.`,
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        suggestions: [
-          language === 'hi' ? 'पानी का स्तर ट्रेंड दिखाएं' : 'Show water level trends',
-          language === 'hi' ? 'अन्य शहरों से तुलना करें' : 'Compare with other cities',
-          language === 'hi' ? 'भविष्य की भविष्यवाणी' : 'Future predictions'
-        ]
-      };
-    }
+      case 'comparison': {
+        const hasLocations = foundCities.length >= 2;
+        return {
+          id: Date.now().toString(),
+          text: hasLocations
+            ? t('chat.comparison.between', { places: formatList(locale, cityNames) })
+            : t('chat.comparison.default'),
+          isUser: false,
+          timestamp: new Date(),
+          showComparison: true,
+          locations: hasLocations ? foundCities : DEFAULT_COMPARISON_IDS,
+          data: { userLocationId: userPlaceId },
+          suggestions: [
+            t('chat.addMoreCities'),
+            t('chat.detailedReport'),
+            t('chat.downloadData')
+          ]
+        };
+      }
 
-    // If user asks to compare two or more cities
-    if (foundCities.length >= 2 && (lowerMessage.includes('compare') || lowerMessage.includes('तुलना'))) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? `${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(' और ')} के बीच भूजल तुलना।`
-          : `Here's a comparison of groundwater data between ${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(' and ')}.`,
-        isUser: false,
-        timestamp: new Date(),
-        showComparison: true,
-        suggestions: [
-          language === 'hi' ? 'और शहर जोड़ें' : 'Add more cities',
-          language === 'hi' ? 'विस्तृत रिपोर्ट' : 'Detailed report',
-          language === 'hi' ? 'डाउनलोड डेटा' : 'Download data'
-        ]
-      };
-    }
+      case 'prediction': {
+        const series = await queryClient.fetchQuery(groundwaterSeriesQuery(locationId));
+        const lastObservedYear = series?.yearly.length ? Number(series.yearly[series.yearly.length - 1].year) : new Date().getFullYear();
+        const years = resolveHorizon(intent.horizon, lastObservedYear);
+        const projection = series ? forecastGroundwater(series, years, settings.forecastMethod) : null;
+        const lastYear = lastObservedYear + years;
+        const { lengthUnit, concentrationUnit } = settings;
+        const projectionText = projection
+          ? ` ${t('chat.prediction.projection', {
+            year: formatYear(locale, lastYear),
+            level: formatLength(locale, projection.waterLevelChange.value, lengthUnit, { signed: true }),
+            levelMargin: formatLength(locale, projection.waterLevelChange.margin, lengthUnit),
+            tds: formatMeasurement(locale, projection.tdsChange.value, 'mg/L', concentrationUnit, { signed: true }),
+            tdsMargin: formatMeasurement(locale, projection.tdsChange.margin, 'mg/L', concentrationUnit),
+            method: t(`chart.forecastMethod.${projection.method}`)
+          })}`
+          : '';
 
-    // If user asks for prediction for a city
-    if (foundCities.length > 0 && (lowerMessage.includes('predict') || lowerMessage.includes('भविष्यवाणी'))) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? `${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')} के लिए अगले 5 साल की भूजल स्तर की भविष्यवाणी।`
-          : `Here's the 5-year prediction for groundwater levels in ${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')}.`,
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        data: { isPrediction: true },
-        suggestions: [
-          language === 'hi' ? 'जोखिम विश्लेषण' : 'Risk analysis',
-          language === 'hi' ? 'सुझाव दें' : 'Get recommendations',
-          language === 'hi' ? 'अलार्ट सेट करें' : 'Set alerts'
-        ]
-      };
-    }
+        return {
+          id: Date.now().toString(),
+          text: (cityNames.length > 0
+            ? t('chat.prediction.places', { years, places: formatList(locale, cityNames) })
+            : t('chat.prediction.area', { years })) + projectionText,
+          isUser: false,
+          timestamp: new Date(),
+          showChart: true,
+          data: { isPrediction: true, locationId, horizon: intent.horizon },
+          suggestions: [
+            t('chat.suggest.riskAnalysis'),
+            t('chat.suggest.recommendations'),
+            t('chat.setAlerts')
+          ]
+        };
+      }
 
-    // If user asks for level for a city
-    if (foundCities.length > 0 && (lowerMessage.includes('level') || lowerMessage.includes('स्तर'))) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? `${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')} में वर्तमान भूजल स्तर सामान्य है।`
-          : `Current groundwater level in ${foundCities.map(c => c.charAt(0).toUpperCase() + c.slice(1)).join(', ')} is normal.`,
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        suggestions: [
-          language === 'hi' ? 'ऐतिहासिक डेटा' : 'Historical data',
-          language === 'hi' ? 'मासिक ट्रेंड' : 'Monthly trends',
-          language === 'hi' ? 'अन्य स्थान देखें' : 'Check other locations'
-        ]
-      };
-    }
+      case 'level':
+        return {
+          id: Date.now().toString(),
+          text: t('chat.level.current', { place: places }),
+          isUser: false,
+          timestamp: new Date(),
+          showChart: true,
+          data: { locationId, timeRange: intent.timeRange },
+          suggestions: [
+            t('chat.suggest.historicalData'),
+            t('chat.monthlyTrends'),
+            t('chat.suggest.otherLocations')
+          ]
+        };
 
-    // Fallback to previous logic if no city found
-    if (lowerMessage.includes('quality') || lowerMessage.includes('गुणवत्ता')) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi' 
-          ? `${userLocation ? 'आपके क्षेत्र' : 'इस क्षेत्र'} के लिए भूजल गुणवत्ता डेटा। डेटा से पता चलता है कि पानी की गुणवत्ता अच्छी है।`
-          : `Groundwater quality data for ${userLocation ? 'your area' : 'this area'}. The data shows good water quality with acceptable TDS levels.`,
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        suggestions: [
-          language === 'hi' ? 'पानी का स्तर ट्रेंड दिखाएं' : 'Show water level trends',
-          language === 'hi' ? 'अन्य शहरों से तुलना करें' : 'Compare with other cities',
-          language === 'hi' ? 'भविष्य की भविष्यवाणी' : 'Future predictions'
-        ]
-      };
-    }
+      case 'seasonal': {
+        const series = await queryClient.fetchQuery(groundwaterSeriesQuery(locationId));
+        const analysis = series ? analyseSeasons(series) : null;
+        const place = cityNames.length > 0 ? cityNames[0] : area;
+        if (!analysis) {
+          return {
+            id: Date.now().toString(),
+            text: t('chat.seasonal.unavailable', { place }),
+            isUser: false,
+            timestamp: new Date()
+          };
+        }
+        return {
+          id: Date.now().toString(),
+          text: `${t('chat.seasonal.intro', { place })} ${describeSeasons(analysis, locale, settings.lengthUnit)}`,
+          isUser: false,
+          timestamp: new Date(),
+          showChart: true,
+          data: { locationId, tab: 'seasonal' },
+          suggestions: [
+            t('chat.suggest.historicalData'),
+            t('chat.setAlerts'),
+            t('chat.downloadData')
+          ]
+        };
+      }
 
-    if (lowerMessage.includes('compare') || lowerMessage.includes('तुलना')) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? 'यहाँ दो स्थानों के बीच भूजल की तुलना है।'
-          : 'Here\'s a comparison of groundwater data between the two locations.',
-        isUser: false,
-        timestamp: new Date(),
-        showComparison: true,
-        suggestions: [
-          language === 'hi' ? 'और शहर जोड़ें' : 'Add more cities',
-          language === 'hi' ? 'विस्तृत रिपोर्ट' : 'Detailed report',
-          language === 'hi' ? 'डाउनलोड डेटा' : 'Download data'
-        ]
-      };
-    }
+      case 'stress': {
+        // "Districts around Ludhiana" means Ludhiana's state
+        const state = matchState(userMessage) ?? matchState(gazetteer.get(foundCities[0] ?? '')?.state ?? '');
+        return {
+          id: Date.now().toString(),
+          text: describeDistrictStress({ state, category: intent.stressCategory }, locale),
+          isUser: false,
+          timestamp: new Date(),
+          showDistricts: true,
+          data: { state, stressCategory: intent.stressCategory },
+          suggestions: [
+            t('chat.downloadData'),
+            t('chat.detailedReport')
+          ]
+        };
+      }
 
-    if (lowerMessage.includes('predict') || lowerMessage.includes('भविष्यवाणी')) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? 'अगले 5 साल के लिए भूजल स्तर की भविष्यवाणी दिखाई गई है।'
-          : 'Here\'s the 5-year prediction for groundwater levels in your area.',
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        data: { isPrediction: true },
-        suggestions: [
-          language === 'hi' ? 'जोखिम विश्लेषण' : 'Risk analysis',
-          language === 'hi' ? 'सुझाव दें' : 'Get recommendations',
-          language === 'hi' ? 'अलार्ट सेट करें' : 'Set alerts'
-        ]
-      };
-    }
+      case 'samples': {
+        // Only the places named: the user's own samples are not tied to where they are now
+        const samples = await queryClient.fetchQuery(samplesQuery);
+        const matching = filterSamples(samples, { locationIds: intent.locations, timeRange: intent.timeRange });
+        const named = intent.locations.map(id => displayName(gazetteer.get(id), locale));
+        return {
+          id: Date.now().toString(),
+          text: describeSamples(matching, {
+            total: samples.length,
+            places: named.length > 0 ? formatList(locale, named) : undefined,
+            standard: settings.waterStandard
+          }, locale),
+          isUser: false,
+          timestamp: new Date(),
+          showSamples: samples.length > 0,
+          locations: intent.locations,
+          data: { timeRange: intent.timeRange },
+          suggestions: matching.length > 0 ? [t('chat.downloadData')] : undefined
+        };
+      }
 
-    if (lowerMessage.includes('level') || lowerMessage.includes('स्तर')) {
-      return {
-        id: Date.now().toString(),
-        text: language === 'hi'
-          ? `${userLocation ? 'आपके क्षेत्र' : 'इस क्षेत्र'} में वर्तमान भूजल स्तर सामान्य है।`
-          : `Current groundwater level in ${userLocation ? 'your area' : 'this area'} is normal.`,
-        isUser: false,
-        timestamp: new Date(),
-        showChart: true,
-        suggestions: [
-          language === 'hi' ? 'ऐतिहासिक डेटा' : 'Historical data',
-          language === 'hi' ? 'मासिक ट्रेंड' : 'Monthly trends',
-          language === 'hi' ? 'अन्य स्थान देखें' : 'Check other locations'
-        ]
-      };
-    }
+      case 'alert': {
+        const request = intent.alert;
+        if (request.action === 'list') {
+          return {
+            id: Date.now().toString(),
+            text: t('chat.alerts.listed'),
+            isUser: false,
+            timestamp: new Date(),
+            showAlerts: true
+          };
+        }
 
-    return {
-      id: Date.now().toString(),
-      text: language === 'hi'
-        ? 'मैं आपकी मदद करने के लिए यहाँ हूँ। कृपया भूजल गुणवत्ता, तुलना या भविष्यवाणी के बारे में पूछें।'
-        : 'I\'m here to help you with groundwater information. Please ask about water quality, comparisons, or predictions.',
-      isUser: false,
-      timestamp: new Date(),
-      suggestions: [
-        language === 'hi' ? 'पानी की गुणवत्ता जांचें' : 'Check water quality',
-        language === 'hi' ? 'शहरों की तुलना' : 'Compare cities',
-        language === 'hi' ? 'भविष्य की रिपोर्ट' : 'Future reports'
-      ]
-    };
+        if (request.action === 'delete') {
+          // Only places the user named; "delete my alerts" clears them all
+          const rules = await queryClient.fetchQuery(alertsQuery);
+          const removed = intent.locations.length > 0
+            ? rules.filter(rule => intent.locations.includes(rule.locationId))
+            : rules;
+          await Promise.all(removed.map(rule => deleteAlert(rule.id)));
+          return {
+            id: Date.now().toString(),
+            text: removed.length > 0 ? t('chat.alerts.deleted', { count: removed.length }) : t('chat.alerts.noneToDelete'),
+            isUser: false,
+            timestamp: new Date(),
+            showAlerts: true
+          };
+        }
+
+        const inputs = alertRulesFor(
+          locationId,
+          { metric: intent.metric, comparator: request.comparator, threshold: request.threshold },
+          { wqiMethod: settings.wqiMethod, waterStandard: settings.waterStandard }
+        );
+        const created = await addAlerts(inputs);
+        const series = await queryClient.fetchQuery(groundwaterSeriesQuery(locationId));
+        const conditions = inputs.map(rule => {
+          const result = series && evaluateAlert(rule, series);
+          if (!result) return describeAlertRule(rule, locale, settings);
+          const current = t('chat.alerts.current', {
+            year: formatYear(locale, result.year),
+            value: formatAlertValue(rule.metric, result.value, locale, settings)
+          });
+          return `${describeAlertRule(rule, locale, settings)} (${current}${result.triggered ? `, ${t('chat.alerts.triggeredNow')}` : ''})`;
+        });
+
+        return {
+          id: Date.now().toString(),
+          text: t(created.length > 0 ? 'chat.alerts.created' : 'chat.alerts.existing', {
+            place: cityNames[0] ?? displayName(gazetteer.get(locationId), locale),
+            conditions: formatList(locale, conditions, 'disjunction')
+          }),
+          isUser: false,
+          timestamp: new Date(),
+          showAlerts: true
+        };
+      }
+
+      default:
+        return {
+          id: Date.now().toString(),
+          text: t('chat.fallback'),
+          isUser: false,
+          timestamp: new Date(),
+          suggestions: [
+            t('chat.suggest.checkQuality'),
+            t('chat.suggest.compareCities'),
+            t('chat.suggest.futureReports')
+          ]
+        };
+    }
   };
 
-  const handleSendMessage = async () => {
-    if (!inputValue.trim()) return;
+  const sendMessage = async (text: string, spoken = false) => {
+    if (!text.trim()) return;
+
+    const queryLocale = detectLanguage(text, locale);
+    if (settings.followQueryLanguage && queryLocale !== locale) {
+      setLocale(queryLocale);
+    }
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
-      text: inputValue,
+      text,
       isUser: true,
-      timestamp: new Date()
+      timestamp: new Date(),
+      locale: queryLocale
     };
 
     setMessages(prev => [...prev, userMessage]);
     setInputValue('');
     setIsProcessing(true);
 
-    const response = await generateResponse(inputValue);
+    let response: ChatMessage;
+    try {
+      response = { ...await generateResponse(text, queryLocale), locale: queryLocale };
+    } catch (error) {
+      console.error('Answering the message failed:', error);
+      response = {
+        id: Date.now().toString(),
+        text: translator(queryLocale)('chat.error'),
+        isUser: false,
+        timestamp: new Date(),
+        locale: queryLocale
+      };
+    } finally {
+      setIsProcessing(false);
+    }
     setMessages(prev => [...prev, response]);
-    setIsProcessing(false);
+
+    // A spoken question gets a spoken answer; listening resumes once it is read out
+    const willSpeak = (settings.autoSpeak || spoken) &&
+      speech.speakMessage(response.id, response.text, voice.speechEnded, speechTag(queryLocale));
+    voice.responseReady(willSpeak);
   };
 
+  const handleSendMessage = () => sendMessage(inputValue);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -486,37 +593,245 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
     setInputValue(query);
   };
 
+  const askAboutMapLocation = (locationId: string, mode: MapColorMode) => {
+    const entry = gazetteer.get(locationId);
+    if (!entry) return;
+    handleSampleQuery(t(mode === 'quality' ? 'chat.mapAskQuality' : 'chat.mapAskLevel', { place: displayName(entry, locale) }));
+  };
+
+  // Replies in another language than the interface need that language's voice
+  const hasVoiceFor = (message: ChatMessage) =>
+    !message.locale || message.locale === locale ? speech.voiceAvailable : Boolean(findVoice(speechTag(message.locale)));
+
+  // Locations a bot message shows data for
+  const messageLocationIds = (message: ChatMessage) =>
+    message.showComparison
+      ? (message.locations ?? DEFAULT_COMPARISON_IDS).slice(0, MAX_COMPARED_LOCATIONS)
+      : message.showChart ? [message.data?.locationId ?? DEFAULT_LOCATION_ID] : [];
+
+  const downloadMessageData = async (message: ChatMessage) => {
+    if (message.showDistricts) {
+      const state = message.data?.state;
+      downloadCsv(districtCsv(filterDistricts({ state })), `districts-${slugify(state ?? 'all')}.csv`);
+      return;
+    }
+    try {
+      if (message.showSamples) {
+        const samples = await queryClient.fetchQuery(samplesQuery);
+        const shown = filterSamples(samples, { locationIds: message.locations, timeRange: message.data?.timeRange });
+        downloadCsv(samplesCsv(shown), `uploaded-samples-${slugify(message.locations?.join('-') || 'all')}.csv`);
+        return;
+      }
+      const series = await Promise.all(
+        messageLocationIds(message).map(id => queryClient.fetchQuery(groundwaterSeriesQuery(id)))
+      );
+      const available = series.filter(Boolean);
+      if (available.length === 0) {
+        toast.error(t('chat.exportFailed'));
+        return;
+      }
+      downloadCsv(yearlyCsv(available), `${available.map(location => location.locationId).join('-')}-groundwater.csv`);
+    } catch (error) {
+      console.error('Data export failed:', error);
+      toast.error(t('chat.exportFailed'));
+    }
+  };
+
+  const exportReport = async () => {
+    setIsExporting(true);
+    try {
+      const dateLocale = `${locale}-IN`;
+      const chartsOf = (message: ChatMessage) =>
+        Array.from(chatAreaRef.current?.querySelectorAll<HTMLElement>(`[data-message-id="${message.id}"] [data-export-chart]`) ?? [])
+          .map(element => ({ title: element.dataset.exportChart, svg: chartToSvg(element) }));
+
+      const locationIds = [...new Set([
+        ...(userLocation?.locationId ? [userLocation.locationId] : []),
+        ...messages.flatMap(messageLocationIds)
+      ])];
+      const locations = await Promise.all(locationIds.map(async id => {
+        const entry = gazetteer.get(id);
+        const series = await queryClient.fetchQuery(groundwaterSeriesQuery(id));
+        const details = [
+          entry?.state ?? series?.state,
+          entry?.district && t('report.district', { district: entry.district }),
+          entry && `${entry.latitude.toFixed(2)}°N, ${entry.longitude.toFixed(2)}°E`,
+          series && t('report.years', { from: series.yearly[0].year, to: series.yearly[series.yearly.length - 1].year })
+        ];
+        return {
+          name: entry ? displayName(entry, locale) : series?.name ?? id,
+          details: details.filter(Boolean).join(' · ')
+        };
+      }));
+
+      const title = savedConversation?.title || t('report.title');
+      const blob = await buildPdfReport({
+        title,
+        subtitle: t('report.generated', { date: new Date().toLocaleString(dateLocale) }),
+        headings: { conversation: t('report.conversation'), locations: t('report.locations'), source: t('report.source') },
+        messages: messages.map(message => ({
+          author: message.isUser ? t('report.you') : t('report.assistant'),
+          time: message.timestamp.toLocaleString(dateLocale),
+          text: message.text,
+          charts: chartsOf(message)
+        })),
+        locations,
+        source: groundwaterRepository.getSource(),
+        sourceUpdatedLabel: t('report.sourceUpdated')
+      });
+      downloadBlob(blob, `${slugify(title)}.pdf`);
+    } catch (error) {
+      console.error('Report export failed:', error);
+      toast.error(t('chat.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleSuggestion = (message: ChatMessage, suggestion: string) => {
+    if (message.showComparison && isSuggestion('chat.addMoreCities', suggestion)) {
+      setExtendingMessageId(message.id);
+      return;
+    }
+    if (isSuggestion('chat.downloadData', suggestion)) {
+      downloadMessageData(message);
+      return;
+    }
+    if (isSuggestion('chat.detailedReport', suggestion)) {
+      exportReport();
+      return;
+    }
+    if (isSuggestion('chat.setAlerts', suggestion)) {
+      const entry = gazetteer.get(message.data?.locationId ?? DEFAULT_LOCATION_ID);
+      sendMessage(entry ? t('chat.setAlertsFor', { place: displayName(entry, locale) }) : suggestion);
+      return;
+    }
+    if (isSuggestion('chat.monthlyTrends', suggestion)) {
+      const entry = gazetteer.get(message.data?.locationId ?? DEFAULT_LOCATION_ID);
+      sendMessage(entry ? t('chat.monthlyTrendsFor', { place: displayName(entry, locale) }) : suggestion);
+      return;
+    }
+    handleSampleQuery(suggestion);
+  };
+
+  const addLocationToComparison = (messageId: string, locationId: string) => {
+    setMessages(prev => prev.map(message =>
+      message.id === messageId
+        ? { ...message, locations: [...(message.locations ?? DEFAULT_COMPARISON_IDS), locationId] }
+        : message
+    ));
+    setExtendingMessageId(null);
+  };
+
   return (
     <div className="flex flex-col h-screen bg-gradient-subtle">
       {/* Header */}
       <div className="bg-card border-b border-border p-4">
         <div className="flex items-center justify-between max-w-4xl mx-auto">
           <div className="flex items-center gap-3">
+            <SidebarTrigger />
             <div className="p-2 rounded-full gradient-water">
               <Droplets className="h-6 w-6 text-primary-foreground" />
             </div>
             <div>
-              <h1 className="text-xl font-bold text-foreground">{t.title}</h1>
-              <p className="text-sm text-muted-foreground">{t.subtitle}</p>
+              <h1 className="text-xl font-bold text-foreground">{t('chat.title')}</h1>
+              <p className="text-sm text-muted-foreground">{t('chat.subtitle')}</p>
             </div>
           </div>
           
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => onLanguageChange(language === 'en' ? 'hi' : 'en')}
-            className="gap-2"
-          >
-            <Globe className="h-4 w-4" />
-            {language === 'en' ? 'हिंदी' : 'English'}
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={toggleHandsFree}
+              className={cn(voice.state.handsFree && "gradient-water text-primary-foreground")}
+              title={voice.state.handsFree ? t('chat.handsFreeOn') : t('chat.handsFreeOff')}
+              aria-pressed={voice.state.handsFree}
+            >
+              <Headphones className="h-4 w-4" />
+            </Button>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                if (settings.autoSpeak) speech.stop();
+                updateSettings({ autoSpeak: !settings.autoSpeak });
+              }}
+              disabled={!speech.voiceAvailable}
+              className={cn(settings.autoSpeak && speech.voiceAvailable && "gradient-water text-primary-foreground")}
+              title={!speech.voiceAvailable ? t('chat.speechUnavailable') : settings.autoSpeak ? t('chat.autoSpeakOn') : t('chat.autoSpeakOff')}
+              aria-pressed={settings.autoSpeak}
+            >
+              {settings.autoSpeak && speech.voiceAvailable ? <Volume2 className="h-4 w-4" /> : <VolumeX className="h-4 w-4" />}
+            </Button>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={exportReport}
+              disabled={isExporting || !messages.some(message => message.isUser)}
+              title={t('chat.exportReport')}
+            >
+              {isExporting
+                ? <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
+                : <FileDown className="h-4 w-4" />}
+            </Button>
+
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowMap(open => !open)}
+              className={cn(showMap && "gradient-water text-primary-foreground")}
+              title={showMap ? t('chat.hideMap') : t('chat.showMap')}
+              aria-pressed={showMap}
+            >
+              <MapIcon className="h-4 w-4" />
+            </Button>
+
+            <SampleImportDialog />
+
+            <SettingsMenu />
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className="gap-2" title={t('common.language')}>
+                  <Globe className="h-4 w-4" />
+                  {localeNames[locale]}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>{t('common.language')}</DropdownMenuLabel>
+                <DropdownMenuRadioGroup value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+                  {locales.map(option => (
+                    <DropdownMenuRadioItem key={option} value={option} lang={option}>
+                      {localeNames[option]}
+                    </DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={settings.followQueryLanguage}
+                  onCheckedChange={(checked) => updateSettings({ followQueryLanguage: checked === true })}
+                >
+                  {t('chat.followQueryLanguage')}
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
         </div>
       </div>
 
+      {showMap && (
+        <div className="max-w-4xl mx-auto w-full px-4 pt-4">
+          <LocationMap userPosition={userLocation} onSelect={askAboutMapLocation} />
+        </div>
+      )}
+
       {/* Chat Area */}
       <div className="flex-1 max-w-4xl mx-auto w-full p-4">
         <ScrollArea className="h-full">
-          <div className="space-y-4 pb-4">
+          <div ref={chatAreaRef} className="space-y-4 pb-4">
             {/* Welcome Message */}
             {messages.length === 0 && (
               <Card className="p-6 bg-card border border-border">
@@ -527,18 +842,15 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
                     </div>
                   </div>
                   <h2 className="text-lg font-semibold text-foreground">
-                    {language === 'hi' ? 'स्वागत है!' : 'Welcome!'}
+                    {t('chat.welcomeTitle')}
                   </h2>
                   <p className="text-muted-foreground">
-                    {language === 'hi' 
-                      ? 'भूजल की जानकारी के लिए पूछें या नीचे दिए गए उदाहरणों को आज़माएं।'
-                      : 'Ask about groundwater information or try the sample queries below.'
-                    }
+                    {t('chat.welcomeText')}
                   </p>
                   
                   {/* Sample Queries */}
                   <div className="grid gap-2 mt-4">
-                    {t.sampleQueries.map((query, index) => (
+                    {sampleQueries.map((query, index) => (
                       <Button
                         key={index}
                         variant="outline"
@@ -558,6 +870,7 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
             {messages.map((message) => (
               <div
                 key={message.id}
+                data-message-id={message.id}
                 className={cn(
                   "flex w-full",
                   message.isUser ? "justify-end" : "justify-start"
@@ -571,17 +884,91 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
                       : "bg-card border border-border"
                   )}
                 >
-                  <p className="text-sm">{message.text}</p>
+                  <div className="flex items-start gap-2">
+                    <p className="text-sm flex-1" lang={message.locale ?? locale}>{message.text}</p>
+                    {!message.isUser && speech.supported && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 flex-shrink-0"
+                        onClick={() =>
+                          speech.speakingId === message.id
+                            ? speech.stop()
+                            : speech.speakMessage(message.id, message.text, undefined, speechTag(message.locale ?? locale))
+                        }
+                        disabled={!hasVoiceFor(message)}
+                        title={
+                          !hasVoiceFor(message)
+                            ? t('chat.speechUnavailable')
+                            : speech.speakingId === message.id ? t('chat.stopSpeaking') : t('chat.replay')
+                        }
+                      >
+                        {speech.speakingId === message.id ? <Square className="h-3 w-3" /> : <Volume2 className="h-3 w-3" />}
+                      </Button>
+                    )}
+                  </div>
+                  <time
+                    dateTime={message.timestamp.toISOString()}
+                    className={cn("block mt-1 text-xs opacity-70", message.isUser && "text-right")}
+                  >
+                    {formatTimestamp(locale, message.timestamp)}
+                  </time>
                   
                   {message.showChart && (
                     <div className="mt-4">
-                      <DataVisualization isPrediction={message.data?.isPrediction} />
+                      <DataVisualization
+                        locationId={message.data?.locationId ?? DEFAULT_LOCATION_ID}
+                        isPrediction={message.data?.isPrediction}
+                        horizon={message.data?.horizon}
+                        timeRange={message.data?.timeRange}
+                        initialTab={message.data?.tab}
+                      />
                     </div>
                   )}
                   
                   {message.showComparison && (
                     <div className="mt-4">
-                      <LocationComparison />
+                      <LocationComparison
+                        locationIds={message.locations ?? DEFAULT_COMPARISON_IDS}
+                        userLocationId={message.data?.userLocationId}
+                      />
+                    </div>
+                  )}
+
+                  {message.showDistricts && (
+                    <div className="mt-4">
+                      <DistrictChoropleth state={message.data?.state} category={message.data?.stressCategory} />
+                    </div>
+                  )}
+
+                  {message.showSamples && (
+                    <div className="mt-4">
+                      <UploadedSamplesPanel locationIds={message.locations} timeRange={message.data?.timeRange} />
+                    </div>
+                  )}
+
+                  {message.showAlerts && (
+                    <div className="mt-4">
+                      <AlertsPanel />
+                    </div>
+                  )}
+
+                  {extendingMessageId === message.id && (
+                    <div className="mt-4">
+                      <Select onValueChange={(locationId) => addLocationToComparison(message.id, locationId)}>
+                        <SelectTrigger className="w-64">
+                          <SelectValue placeholder={t('chat.chooseCity')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {availableLocations
+                            .filter(location => !(message.locations ?? DEFAULT_COMPARISON_IDS).includes(location.id))
+                            .map(location => (
+                              <SelectItem key={location.id} value={location.id}>
+                                {locationName(location.id, location.name, locale)}, {location.state}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
                     </div>
                   )}
 
@@ -589,7 +976,7 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
                   {message.suggestions && !message.isUser && (
                     <div className="mt-4 space-y-2">
                       <p className="text-xs text-muted-foreground font-medium">
-                        {language === 'hi' ? 'सुझाव:' : 'Suggestions:'}
+                        {t('chat.suggestions')}
                       </p>
                       <div className="flex flex-wrap gap-2">
                         {message.suggestions.map((suggestion, index) => (
@@ -598,7 +985,11 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
                             variant="outline"
                             size="sm"
                             className="text-xs h-8 px-3 hover:gradient-water hover:text-primary-foreground transition-smooth"
-                            onClick={() => handleSampleQuery(suggestion)}
+                            onClick={() => handleSuggestion(message, suggestion)}
+                            disabled={
+                              isSuggestion('chat.addMoreCities', suggestion) &&
+                              (message.locations ?? DEFAULT_COMPARISON_IDS).length >= MAX_COMPARED_LOCATIONS
+                            }
                           >
                             {suggestion}
                           </Button>
@@ -616,7 +1007,7 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
                 <div className="bg-card border border-border rounded-lg p-4">
                   <div className="flex items-center gap-2">
                     <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
-                    <span className="text-sm text-muted-foreground">{t.processing}</span>
+                    <span className="text-sm text-muted-foreground">{t('chat.processing')}</span>
                   </div>
                 </div>
               </div>
@@ -632,10 +1023,10 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
           <div className="flex gap-2">
             <div className="flex-1 relative">
               <Input
-                value={inputValue}
+                value={voice.state.interim || inputValue}
                 onChange={(e) => setInputValue(e.target.value)}
                 onKeyPress={handleKeyPress}
-                placeholder={t.placeholder}
+                placeholder={t('chat.placeholder')}
                 className="pr-12 transition-smooth focus:ring-2 focus:ring-primary"
                 disabled={isListening || isProcessing}
               />
@@ -651,21 +1042,21 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
             
             <Button
               onClick={startListening}
-              disabled={!recognitionRef.current || isListening || isProcessing}
+              disabled={!voice.supported || voice.state.handsFree || isProcessing}
               variant="outline"
               size="icon"
               className={cn(
                 "transition-bounce relative",
                 isListening && "animate-ripple gradient-water text-primary-foreground"
               )}
-              title={t.voiceTooltip}
+              title={t('chat.voiceTooltip')}
             >
               {isListening ? (
                 <MicOff className="h-4 w-4" />
               ) : (
                 <Mic className="h-4 w-4" />
               )}
-              {!recognitionRef.current && (
+              {!voice.supported && (
                 <div className="absolute -top-1 -right-1 w-2 h-2 bg-destructive rounded-full"></div>
               )}
             </Button>
@@ -674,14 +1065,23 @@ export const GroundwaterChat: React.FC<GroundwaterChatProps> = ({ language, onLa
               onClick={handleSendMessage}
               disabled={!inputValue.trim() || isProcessing}
               className="gradient-water hover:opacity-90 transition-smooth"
+              title={t('chat.send')}
             >
               <Send className="h-4 w-4" />
             </Button>
           </div>
           
-          {isListening && (
+          {voice.state.phase !== 'idle' && voice.state.phase !== 'processing' && (
             <p className="text-xs text-muted-foreground mt-2 text-center">
-              {t.listening}
+              {voice.loading
+                ? t('chat.loadingSpeechModel')
+                : voice.state.phase === 'speaking'
+                  ? t('chat.speaking')
+                  : voice.state.phase === 'dormant'
+                    ? t('chat.handsFreeDormant', { phrase: wakePhrases[locale][0] })
+                    : voice.state.handsFree
+                      ? t('chat.handsFreeListening', { phrase: stopPhrases[locale][0] })
+                      : t('chat.listening')}
             </p>
           )}
         </div>
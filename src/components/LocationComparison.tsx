@@ -1,98 +1,276 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
-import { MapPin, TrendingUp, TrendingDown } from 'lucide-react';
-
-// Sample comparison data between two locations
-const comparisonData = [
-  {
-    metric: 'Water Level',
-    location1: 11.2,
-    location2: 8.5,
-    unit: 'm'
-  },
-  {
-    metric: 'Quality Index',
-    location1: 70,
-    location2: 45,
-    unit: '%'
-  },
-  {
-    metric: 'TDS Level',
-    location1: 650,
-    location2: 890,
-    unit: 'ppm'
-  },
-  {
-    metric: 'pH Level',
-    location1: 7.2,
-    location2: 6.8,
-    unit: ''
-  },
-  {
-    metric: 'Dissolved Oxygen',
-    location1: 6.8,
-    location2: 4.2,
-    unit: 'mg/L'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MapPin } from 'lucide-react';
+import { useGroundwaterSeriesList } from '@/hooks/use-groundwater-series';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import type { GroundwaterDataPoint } from '@/lib/groundwater-repository';
+import { stateName } from '@/lib/district-stress';
+import { formatLength, formatMeasurement, formatNumber, formatPercent, type ConcentrationUnit } from '@/lib/format';
+import { locationName } from '@/lib/gazetteer';
+import { formatList, type Locale, type Translate } from '@/lib/i18n';
+import { yearlyCsv } from '@/lib/groundwater-export';
+import type { Settings } from '@/lib/settings';
+import { parameterIds, parameterScore, parameters, rangeScore, type ParameterId } from '@/lib/groundwater-parameters';
+import {
+  assessCompliance,
+  classifyParameter,
+  isStandardParameter,
+  statusColor,
+  waterStandards,
+  worstStatus,
+  type ComplianceStatus,
+  type WaterStandard,
+} from '@/lib/water-standards';
+import { computeWqi, wqiCategory, wqiCategoryStatus } from '@/lib/water-quality-index';
+import { levelMeasures, type LevelMeasure } from '@/lib/water-level';
+import { StatusBadge, StatusValue } from './ComplianceCard';
+import { ExportMenu } from './ExportMenu';
+
+interface LocationComparisonProps {
+  locationIds: string[];
+  /** Location nearest to the user, labelled "Your Location" */
+  userLocationId?: string;
+}
+
+interface ComparisonMetric {
+  metric: string;
+  subject: string;
+  value: (point: GroundwaterDataPoint) => number | undefined;
+  /** The value with its unit, in the user's language and units */
+  format: (value: number) => string;
+  /** Drinking-water status of a value, for metrics the standards cover */
+  status?: (value: number) => ComplianceStatus | null;
+  /** Qualitative reading shown after the value, such as the WQI category */
+  describe?: (value: number) => string;
+  /** Acceptable upper limit in the chosen standard; the bar chart plots readings as a share of it */
+  limit?: number;
+  /** How the value is derived, shown under the metric name */
+  note?: string;
+  /** Completes "with …" in the summary when a location leads on this metric */
+  advantage: string;
+  // Maps a raw value onto 0-100 for the radar, where 100 is the best case
+  score: (value: number) => number;
+}
+
+const clampScore = (value: number) => Math.round(Math.max(0, Math.min(100, value)));
+
+const advantageText = (id: ParameterId, t: Translate, locale: Locale) => {
+  const { shortName, better } = parameters[id];
+  const parameter = t(`parameter.${id}.name`).toLocaleLowerCase(locale);
+  if (better === 'lower') return t('comparison.advantage.lower', { parameter });
+  if (better === 'higher') return t('comparison.advantage.more', { parameter });
+  return t('comparison.advantage.closer', { parameter: shortName, ideal: better.ideal });
+};
+
+const parameterMetric = (
+  id: ParameterId,
+  standard: WaterStandard,
+  concentrationUnit: ConcentrationUnit,
+  t: Translate,
+  locale: Locale,
+): ComparisonMetric => {
+  const limit = isStandardParameter(id) ? waterStandards[standard].limits[id]?.acceptable : undefined;
+  return {
+    metric: t(`parameter.${id}.name`),
+    subject: parameters[id].shortName,
+    value: (point) => point[id],
+    format: (value) => formatMeasurement(locale, value, parameters[id].unit, concentrationUnit),
+    status: (value) => (isStandardParameter(id) ? classifyParameter(id, value, standard) : null),
+    // pH is a band around neutral, which a percentage of one limit would misstate
+    limit: typeof limit === 'number' ? limit : undefined,
+    advantage: advantageText(id, t, locale),
+    score: (value) => parameterScore(id, value),
+  };
+};
+
+const levelMetric = (measure: LevelMeasure, settings: Settings, t: Translate, locale: Locale): ComparisonMetric => ({
+  metric: t('comparison.metric.waterLevel'),
+  subject: t('comparison.metric.waterLevel'),
+  value: (point) => point.waterLevel,
+  format: (value) => formatLength(locale, value, settings.lengthUnit),
+  note: t('comparison.levelNote', { measure }),
+  advantage: t('comparison.advantage.waterLevel', { measure }),
+  score: (value) => rangeScore(value, levelMeasures[measure].range, levelMeasures[measure].better),
+});
+
+/** Water level is left out when the locations measure it differently, as depths and elevations do not compare */
+const comparisonMetrics = (
+  settings: Settings,
+  levelMeasure: LevelMeasure | null,
+  t: Translate,
+  locale: Locale,
+): ComparisonMetric[] => {
+  const { wqiMethod: method, waterStandard: standard, concentrationUnit } = settings;
+  return [
+    ...(levelMeasure ? [levelMetric(levelMeasure, settings, t, locale)] : []),
+    {
+      metric: t('comparison.metric.wqi'),
+      subject: 'WQI',
+      value: (point) => computeWqi(point, method, standard)?.value,
+      format: (value) => formatNumber(locale, value),
+      status: (value) => wqiCategoryStatus[wqiCategory(method, value)],
+      describe: (value) => t(`wqi.category.${wqiCategory(method, value)}`),
+      note: t('comparison.wqiNote', { method: t(`wqi.method.${method}.name`), standard: waterStandards[standard].name }),
+      advantage: t('comparison.advantage.betterWqi'),
+      // Weighted arithmetic grows with pollution; 300 and above is unsuitable
+      score: (value) => clampScore(method === 'ccme' ? value : 100 - value / 3),
+    },
+    ...parameterIds.map((id) => parameterMetric(id, standard, concentrationUnit, t, locale)),
+  ];
+};
+
+export const MAX_COMPARED_LOCATIONS = 6;
+
+const seriesColors = [1, 2, 3, 4, 5, 6].map((n) => `hsl(var(--chart-${n}))`);
+
+export const LocationComparison: React.FC<LocationComparisonProps> = ({ locationIds, userLocationId }) => {
+  const results = useGroundwaterSeriesList(locationIds.slice(0, MAX_COMPARED_LOCATIONS));
+  const [settings] = useSettings();
+  const { waterStandard } = settings;
+  const barChartRef = useRef<HTMLDivElement>(null);
+  const radarChartRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+
+  if (results.some((result) => result.isLoading)) {
+    return (
+      <div className="flex items-center gap-2 p-4">
+        <div className="animate-spin rounded-full h-4 w-4 border-2 border-primary border-t-transparent"></div>
+        <span className="text-sm text-muted-foreground">{t('common.loading')}</span>
+      </div>
+    );
   }
-];
 
-const radarData = [
-  { subject: 'Water Level', location1: 75, location2: 45 },
-  { subject: 'Quality', location1: 70, location2: 45 },
-  { subject: 'TDS', location1: 35, location2: 15 }, // Inverted for radar (lower is better)
-  { subject: 'pH', location1: 80, location2: 70 },
-  { subject: 'Dissolved O2', location1: 85, location2: 50 },
-];
+  const locations = results
+    .map((result) => result.data)
+    .filter(Boolean)
+    .map((series, index) => ({
+      ...series,
+      name: locationName(series.locationId, series.name, locale),
+      color: seriesColors[index % seriesColors.length],
+      latest: series.yearly[series.yearly.length - 1],
+    }))
+    .map((location) => ({
+      ...location,
+      compliance: assessCompliance(location.latest, waterStandard),
+    }));
+  const missing = locationIds
+    .filter((_, index) => index < MAX_COMPARED_LOCATIONS && !results[index].data)
+    .map((id) => locationName(id, id, locale));
+  const missingNote = missing.length > 0 ? t('common.noDataFor', { places: formatList(locale, missing) }) : '';
+
+  if (locations.length < 2) {
+    return (
+      <Card>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          {t('comparison.needTwo')}
+          {missingNote && ` ${missingNote}`}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Only compare metrics every location reports, and water levels only when measured alike
+  const levelMeasure = locations.every((location) => location.levelMeasure === locations[0].levelMeasure)
+    ? locations[0].levelMeasure
+    : null;
+  const sharedMetrics = comparisonMetrics(settings, levelMeasure, t, locale).filter((item) =>
+    locations.every((location) => item.value(location.latest) !== undefined)
+  );
+
+  // As a share of the limit, so trace elements such as arsenic are not dwarfed by TDS
+  const comparisonData = sharedMetrics
+    .filter((item) => item.limit !== undefined)
+    .map((item) => ({
+      metric: item.subject,
+      format: item.format,
+      readings: Object.fromEntries(locations.map((location) => [location.locationId, item.value(location.latest)])),
+      ...Object.fromEntries(
+        locations.map((location) => [location.locationId, Math.round((100 * item.value(location.latest)) / item.limit)])
+      ),
+    }));
+
+  const radarData = sharedMetrics.map((item) => ({
+    subject: item.subject,
+    ...Object.fromEntries(locations.map((location) => [location.locationId, item.score(item.value(location.latest))])),
+  }));
+
+  const ranking = locations
+    .map((location) => {
+      const scores = sharedMetrics.map((item) => item.score(item.value(location.latest)));
+      return {
+        ...location,
+        overall: Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+        advantages: sharedMetrics
+          .filter((item) => {
+            const own = item.score(item.value(location.latest));
+            return locations.every((other) => other === location || own > item.score(item.value(other.latest)));
+          })
+          .map((item) => item.advantage),
+      };
+    })
+    .sort((a, b) => b.overall - a.overall);
+  const leader = ranking[0];
+  const exportName = `comparison-${locations.map((location) => location.locationId).join('-')}`;
+  const exportCsv = () => yearlyCsv(locations);
+  const trailer = ranking[ranking.length - 1];
 
-export const LocationComparison: React.FC = () => {
   return (
     <div className="w-full space-y-4">
       {/* Location Headers */}
-      <div className="grid grid-cols-2 gap-4">
-        <Card className="gradient-water text-primary-foreground">
-          <CardContent className="p-4 text-center">
-            <MapPin className="h-6 w-6 mx-auto mb-2" />
-            <h3 className="font-semibold">Delhi</h3>
-            <p className="text-sm opacity-90">Your Location</p>
-          </CardContent>
-        </Card>
-        
-        <Card className="gradient-earth text-secondary-foreground">
-          <CardContent className="p-4 text-center">
-            <MapPin className="h-6 w-6 mx-auto mb-2" />
-            <h3 className="font-semibold">Mumbai</h3>
-            <p className="text-sm opacity-90">Comparison Location</p>
-          </CardContent>
-        </Card>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {locations.map((location) => (
+          <Card key={location.locationId} className="border-t-4" style={{ borderTopColor: location.color }}>
+            <CardContent className="p-4 text-center">
+              <MapPin className="h-6 w-6 mx-auto mb-2" style={{ color: location.color }} />
+              <h3 className="font-semibold">{location.name}</h3>
+              <p className="text-sm text-muted-foreground">
+                {location.locationId === userLocationId ? t('comparison.yourLocation') : stateName(location.state, locale)}
+              </p>
+              {location.compliance.length > 0 && (
+                <StatusBadge className="mt-2" status={worstStatus(location.compliance.map((result) => result.status))} />
+              )}
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* Bar Chart Comparison */}
       <Card>
-        <CardHeader>
-          <CardTitle>Groundwater Metrics Comparison</CardTitle>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <div className="space-y-1">
+            <CardTitle>{t('comparison.metricsTitle')}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {t('comparison.metricsNote', { standard: waterStandards[waterStandard].name })}
+            </p>
+          </div>
+          <ExportMenu filename={`${exportName}-metrics`} csv={exportCsv} chartRef={barChartRef} />
         </CardHeader>
-        <CardContent>
+        <CardContent ref={barChartRef} data-export-chart={t('comparison.metricsTitle')}>
           <ResponsiveContainer width="100%" height={300}>
             <BarChart data={comparisonData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
               <XAxis dataKey="metric" />
-              <YAxis />
-              <Tooltip 
+              <YAxis tickFormatter={(value) => formatPercent(locale, value)} />
+              <ReferenceLine y={100} stroke={statusColor('permissible')} strokeDasharray="4 4" ifOverflow="extendDomain" />
+              <Tooltip
                 formatter={(value, name, props) => [
-                  `${value}${props.payload.unit}`, 
-                  name === 'location1' ? 'Delhi' : 'Mumbai'
+                  `${formatPercent(locale, Number(value))} (${props.payload.format(props.payload.readings[props.dataKey])})`,
+                  name
                 ]}
                 labelStyle={{ color: 'hsl(var(--foreground))' }}
-                contentStyle={{ 
-                  backgroundColor: 'hsl(var(--card))', 
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
                   border: '1px solid hsl(var(--border))',
                   borderRadius: '6px'
                 }}
               />
               <Legend />
-              <Bar dataKey="location1" fill="hsl(var(--primary))" name="Delhi" />
-              <Bar dataKey="location2" fill="hsl(var(--secondary))" name="Mumbai" />
+              {locations.map((location) => (
+                <Bar key={location.locationId} dataKey={location.locationId} fill={location.color} name={location.name} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
@@ -100,29 +278,26 @@ export const LocationComparison: React.FC = () => {
 
       {/* Radar Chart */}
       <Card>
-        <CardHeader>
-          <CardTitle>Overall Performance Radar</CardTitle>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <CardTitle>{t('comparison.radarTitle')}</CardTitle>
+          <ExportMenu filename={`${exportName}-radar`} csv={exportCsv} chartRef={radarChartRef} />
         </CardHeader>
-        <CardContent>
+        <CardContent ref={radarChartRef} data-export-chart={t('comparison.radarTitle')}>
           <ResponsiveContainer width="100%" height={300}>
             <RadarChart data={radarData}>
               <PolarGrid />
               <PolarAngleAxis dataKey="subject" />
-              <PolarRadiusAxis angle={60} domain={[0, 100]} />
-              <Radar
-                name="Delhi"
-                dataKey="location1"
-                stroke="hsl(var(--primary))"
-                fill="hsl(var(--primary))"
-                fillOpacity={0.3}
-              />
-              <Radar
-                name="Mumbai"
-                dataKey="location2"
-                stroke="hsl(var(--secondary))"
-                fill="hsl(var(--secondary))"
-                fillOpacity={0.3}
-              />
+              <PolarRadiusAxis angle={60} domain={[0, 100]} tickFormatter={(value) => formatNumber(locale, value)} />
+              {locations.map((location) => (
+                <Radar
+                  key={location.locationId}
+                  name={location.name}
+                  dataKey={location.locationId}
+                  stroke={location.color}
+                  fill={location.color}
+                  fillOpacity={locations.length > 2 ? 0.15 : 0.3}
+                />
+              ))}
               <Legend />
             </RadarChart>
           </ResponsiveContainer>
@@ -131,49 +306,25 @@ export const LocationComparison: React.FC = () => {
 
       {/* Detailed Comparison Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {comparisonData.map((item, index) => {
-          const difference = item.location1 - item.location2;
-          const isPositive = difference > 0;
-          const isTDS = item.metric === 'TDS Level';
-          const isGoodChange = isTDS ? difference < 0 : difference > 0;
-          
+        {sharedMetrics.map((item) => {
+          const readings = locations.map((location) => ({ location, value: item.value(location.latest) }));
+
           return (
-            <Card key={index} className="hover:shadow-md transition-smooth">
+            <Card key={item.metric} className="hover:shadow-md transition-smooth">
               <CardContent className="p-4">
-                <div className="flex items-center justify-between mb-2">
-                  <h4 className="font-medium text-sm">{item.metric}</h4>
-                  {isGoodChange ? (
-                    <TrendingUp className="h-4 w-4 text-green-500" />
-                  ) : (
-                    <TrendingDown className="h-4 w-4 text-red-500" />
-                  )}
-                </div>
-                
+                <h4 className="font-medium text-sm mb-2">{item.metric}</h4>
+                {item.note && <p className="text-xs text-muted-foreground -mt-1 mb-2">{item.note}</p>}
+
                 <div className="space-y-2">
-                  <div className="flex justify-between items-center">
-                    <span className="text-xs text-muted-foreground">Delhi</span>
-                    <span className="font-semibold">
-                      {item.location1}{item.unit}
-                    </span>
-                  </div>
-                  
-                  <div className="flex justify-between items-center">
-                    <span className="text-xs text-muted-foreground">Mumbai</span>
-                    <span className="font-semibold">
-                      {item.location2}{item.unit}
-                    </span>
-                  </div>
-                  
-                  <div className="pt-2 border-t border-border">
-                    <div className="flex justify-between items-center">
-                      <span className="text-xs text-muted-foreground">Difference</span>
-                      <span className={`text-xs font-medium ${
-                        isGoodChange ? 'text-green-600' : 'text-red-600'
-                      }`}>
-                        {isPositive ? '+' : ''}{difference.toFixed(1)}{item.unit}
-                      </span>
+                  {readings.map(({ location, value }) => (
+                    <div key={location.locationId} className="flex justify-between items-center">
+                      <span className="text-xs text-muted-foreground">{location.name}</span>
+                      <StatusValue status={item.status?.(value)} className="font-semibold">
+                        {item.format(value)}
+                        {item.describe && <span className="ml-1 text-xs font-normal">({item.describe(value)})</span>}
+                      </StatusValue>
                     </div>
-                  </div>
+                  ))}
                 </div>
               </CardContent>
             </Card>
@@ -181,17 +332,74 @@ export const LocationComparison: React.FC = () => {
         })}
       </div>
 
+      {/* Ranking */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('comparison.ranking')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>{t('comparison.location')}</TableHead>
+                {sharedMetrics.map((item) => (
+                  <TableHead key={item.metric} className="text-right">{item.subject}</TableHead>
+                ))}
+                <TableHead className="text-right">{waterStandards[waterStandard].name}</TableHead>
+                <TableHead className="text-right">{t('comparison.score')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ranking.map((location, index) => (
+                <TableRow key={location.locationId}>
+                  <TableCell>{formatNumber(locale, index + 1)}</TableCell>
+                  <TableCell className="font-medium">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: location.color }} />
+                    {location.name}
+                  </TableCell>
+                  {sharedMetrics.map((item) => (
+                    <TableCell key={item.metric} className="text-right">
+                      <StatusValue status={item.status?.(item.value(location.latest))}>
+                        {item.format(item.value(location.latest))}
+                      </StatusValue>
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">
+                    {location.compliance.length > 0 && (
+                      <StatusBadge status={worstStatus(location.compliance.map((result) => result.status))} />
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-semibold">{formatNumber(locale, location.overall)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {/* Summary */}
       <Card>
         <CardContent className="p-4">
-          <h4 className="font-medium mb-2">Summary</h4>
+          <h4 className="font-medium mb-2">{t('comparison.summary')}</h4>
           <p className="text-sm text-muted-foreground">
-            Delhi shows better overall groundwater quality compared to Mumbai, with higher water levels, 
-            better quality index, and lower TDS levels. However, both locations require monitoring 
-            for sustainable water management.
+            {leader.overall <= trailer.overall
+              ? t('comparison.summary.similar', { places: formatList(locale, locations.map((location) => location.name)) })
+              : leader.advantages.length > 0
+                ? t('comparison.summary.leaderWith', {
+                    leader: leader.name,
+                    count: locations.length,
+                    advantages: formatList(locale, leader.advantages),
+                    trailer: trailer.name,
+                  })
+                : t('comparison.summary.leader', { leader: leader.name, count: locations.length, trailer: trailer.name })}{' '}
+            {t('comparison.summary.monitoring')}
           </p>
+          {missing.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-2">{missingNote}</p>
+          )}
         </CardContent>
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Map as MaplibreMap } from 'maplibre-gl';
+import { MapIcon, WifiOff } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useGroundwaterLocations, useGroundwaterSeriesList } from '@/hooks/use-groundwater-series';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { displayName, gazetteer } from '@/lib/gazetteer';
+import type { Coordinates } from '@/lib/geo';
+import {
+  buildMarkers,
+  indiaOutlinePath,
+  INDIA_BOUNDS,
+  mapStyle,
+  OUTLINE_VIEWBOX,
+  projectToSvg,
+  type MapColorMode,
+  type MapMarker,
+} from '@/lib/location-map';
+import { statusColor, type ComplianceStatus } from '@/lib/water-standards';
+
+interface LocationMapProps {
+  /** The user's geolocated position, when they shared it */
+  userPosition?: Coordinates | null;
+  /** Called with a location and what its marker showed when the marker is clicked */
+  onSelect: (locationId: string, mode: MapColorMode) => void;
+}
+
+type LabelledMarker = MapMarker & { label: string };
+
+interface MapViewProps {
+  markers: LabelledMarker[];
+  userPosition?: Coordinates | null;
+  userLabel: string;
+  onSelect: (locationId: string) => void;
+}
+
+const legendStatuses: ComplianceStatus[] = ['acceptable', 'permissible', 'unsafe'];
+
+const markerColor = (status: ComplianceStatus | null) => (status ? statusColor(status) : 'hsl(var(--muted-foreground))');
+
+const TileMap: React.FC<MapViewProps & { onUnavailable: () => void }> = ({
+  markers,
+  userPosition,
+  userLabel,
+  onSelect,
+  onUnavailable,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<{ map: MaplibreMap; maplibre: typeof import('maplibre-gl') } | null>(null);
+  // Markers are plain DOM elements, so read the latest handler at click time
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    let cancelled = false;
+    let map: MaplibreMap | undefined;
+
+    (async () => {
+      try {
+        const maplibre = await import('maplibre-gl');
+        await import('maplibre-gl/dist/maplibre-gl.css');
+        if (cancelled || !containerRef.current) return;
+        map = new maplibre.Map({
+          container: containerRef.current,
+          style: mapStyle(),
+          bounds: INDIA_BOUNDS,
+          fitBoundsOptions: { padding: 16 },
+          attributionControl: { compact: true },
+        });
+        map.addControl(new maplibre.NavigationControl({ showCompass: false }));
+        // A missing style or tile before the first full render means there is no usable source
+        let rendered = false;
+        map.once('idle', () => { rendered = true; });
+        map.on('error', (event) => {
+          if (rendered) return;
+          console.error('Map tiles unavailable:', event.error);
+          onUnavailable();
+        });
+        setView({ map, maplibre });
+      } catch (error) {
+        // Also reached without WebGL
+        console.error('Map could not be created:', error);
+        onUnavailable();
+      }
+    })();
+
+    window.addEventListener('offline', onUnavailable);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('offline', onUnavailable);
+      map?.remove();
+    };
+  }, [onUnavailable]);
+
+  useEffect(() => {
+    if (!view) return;
+    const { map, maplibre } = view;
+    const added = markers.map((marker) => {
+      const element = document.createElement('button');
+      element.type = 'button';
+      element.className = 'h-3.5 w-3.5 rounded-full border-2 border-white shadow cursor-pointer';
+      element.style.backgroundColor = markerColor(marker.status);
+      element.title = marker.label;
+      element.setAttribute('aria-label', marker.label);
+      element.addEventListener('click', () => onSelectRef.current(marker.locationId));
+      return new maplibre.Marker({ element }).setLngLat([marker.longitude, marker.latitude]).addTo(map);
+    });
+    if (userPosition) {
+      const element = document.createElement('div');
+      element.className = 'h-4 w-4 rounded-full border-2 border-white bg-primary ring-4 ring-primary/30';
+      element.title = userLabel;
+      added.push(new maplibre.Marker({ element }).setLngLat([userPosition.longitude, userPosition.latitude]).addTo(map));
+    }
+    return () => added.forEach((marker) => marker.remove());
+  }, [view, markers, userPosition, userLabel]);
+
+  return <div ref={containerRef} className="h-full w-full" />;
+};
+
+const OutlineMap: React.FC<MapViewProps> = ({ markers, userPosition, userLabel, onSelect }) => (
+  <svg viewBox={OUTLINE_VIEWBOX} className="h-full w-full" role="group">
+    <path d={indiaOutlinePath} className="fill-muted stroke-border" strokeWidth={0.8} />
+    {markers.map((marker) => {
+      const [x, y] = projectToSvg(marker);
+      return (
+        <circle
+          key={marker.locationId}
+          cx={x}
+          cy={y}
+          r={3.5}
+          fill={markerColor(marker.status)}
+          stroke="white"
+          strokeWidth={1}
+          className="cursor-pointer"
+          role="button"
+          tabIndex={0}
+          aria-label={marker.label}
+          onClick={() => onSelect(marker.locationId)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter' || event.key === ' ') onSelect(marker.locationId);
+          }}
+        >
+          <title>{marker.label}</title>
+        </circle>
+      );
+    })}
+    {userPosition && (() => {
+      const [x, y] = projectToSvg(userPosition);
+      return (
+        <g>
+          <circle cx={x} cy={y} r={7} fill="hsl(var(--primary))" fillOpacity={0.25} />
+          <circle cx={x} cy={y} r={4} fill="hsl(var(--primary))" stroke="white" strokeWidth={1.5}>
+            <title>{userLabel}</title>
+          </circle>
+        </g>
+      );
+    })()}
+  </svg>
+);
+
+export const LocationMap: React.FC<LocationMapProps> = ({ userPosition, onSelect }) => {
+  const [mode, setMode] = useState<MapColorMode>('level');
+  const [tilesUnavailable, setTilesUnavailable] = useState(false);
+  const [{ waterStandard, wqiMethod }] = useSettings();
+  const { data: locations = [] } = useGroundwaterLocations();
+  const results = useGroundwaterSeriesList(locations.map((location) => location.id));
+  const { locale, t } = useI18n();
+
+  const markers = useMemo(() => {
+    const placed = results.flatMap(({ data: series }) => {
+      const entry = series && gazetteer.get(series.locationId);
+      return entry ? [{ ...series, latitude: entry.latitude, longitude: entry.longitude }] : [];
+    });
+    return buildMarkers(placed, mode, wqiMethod, waterStandard).map((marker) => {
+      const entry = gazetteer.get(marker.locationId);
+      const detail = marker.value === null
+        ? t('map.noData')
+        : mode === 'level'
+          ? t('map.levelDetail', { value: `${marker.value > 0 ? '+' : ''}${marker.value}` })
+          : t('map.wqiDetail', { value: marker.value });
+      return { ...marker, label: `${entry ? displayName(entry, locale) : marker.name}: ${detail}` };
+    });
+  }, [results, mode, wqiMethod, waterStandard, locale, t]);
+
+  const markTilesUnavailable = useCallback(() => setTilesUnavailable(true), []);
+  const select = (locationId: string) => onSelect(locationId, mode);
+  const view = { markers, userPosition, userLabel: t('map.you'), onSelect: select };
+
+  return (
+    <Card>
+      <CardHeader className="flex-row flex-wrap items-center justify-between gap-2 space-y-0 pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MapIcon className="h-5 w-5 text-primary" />
+          {t('map.title')}
+        </CardTitle>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {t('map.colorBy')}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as MapColorMode)}
+          >
+            <ToggleGroupItem value="level" className="text-xs">{t('map.level')}</ToggleGroupItem>
+            <ToggleGroupItem value="quality" className="text-xs">{t('map.quality')}</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="h-80 overflow-hidden rounded-md border border-border bg-muted/30">
+          {tilesUnavailable
+            ? <OutlineMap {...view} />
+            : <TileMap {...view} onUnavailable={markTilesUnavailable} />}
+        </div>
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {legendStatuses.map((status) => (
+            <span key={status} className="flex items-center gap-1">
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: statusColor(status) }} />
+              {t(`map.legend.${mode}.${status}`)}
+            </span>
+          ))}
+          <span>{t('map.hint')}</span>
+        </div>
+        {tilesUnavailable && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <WifiOff className="h-3 w-3" />
+            {t('map.offline')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileSpreadsheet, Upload, XCircle } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { cn } from "@/lib/utils";
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useAddSamples } from '@/hooks/use-samples';
+import { formatList, type Translate } from '@/lib/i18n';
+import { formatDate, formatLength, formatMeasurement } from '@/lib/format';
+import { parameters, type ParameterId } from '@/lib/groundwater-parameters';
+import { isImportable, parseSampleFile, type ImportField, type ImportIssue, type SampleImport } from '@/lib/sample-import';
+import { measuredParameters } from '@/lib/uploaded-samples';
+
+// Enough rows to spot a wrongly mapped column without rendering a whole survey
+const PREVIEW_ROWS = 100;
+
+const ACCEPTED_FILES = '.csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const fieldName = (field: ImportField, t: Translate) =>
+  field in parameters ? t(`parameter.${field as ParameterId}.name`) : t(`import.field.${field as 'location' | 'district' | 'date' | 'waterLevel'}`);
+
+const issueText = (issue: ImportIssue, t: Translate) =>
+  t(`import.issue.${issue.kind}`, { field: issue.field ? fieldName(issue.field, t) : '', value: issue.value ?? '' });
+
+export const SampleImportDialog: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<SampleImport | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState(false);
+  const { mutateAsync: addSamples, isPending: isSaving } = useAddSamples();
+  const [{ lengthUnit, concentrationUnit }] = useSettings();
+  const { locale, t } = useI18n();
+
+  const reset = () => {
+    setFile(null);
+    setResult(null);
+    setReadError(false);
+  };
+
+  const chooseFile = async (chosen: File | undefined) => {
+    reset();
+    if (!chosen) return;
+    setFile(chosen);
+    setIsReading(true);
+    try {
+      setResult(await parseSampleFile(chosen));
+    } catch (error) {
+      console.error('Sample import failed:', error);
+      setReadError(true);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const importable = result?.rows.filter(isImportable) ?? [];
+  const shownParameters = result ? measuredParameters(result.rows.map(row => row.sample)) : [];
+  const showsLevel = result?.rows.some(row => row.sample.waterLevel !== undefined);
+
+  const confirm = async () => {
+    try {
+      const created = await addSamples(importable.map(row => row.sample));
+      toast.success(t('import.done', { count: created.length }));
+      setOpen(false);
+      reset();
+    } catch (error) {
+      console.error('Saving samples failed:', error);
+      toast.error(t('import.saveFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { setOpen(next); if (!next) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title={t('import.button')}>
+          <Upload className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            {t('import.title')}
+          </DialogTitle>
+          <DialogDescription>{t('import.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="sample-file">{t('import.chooseFile')}</Label>
+          <Input
+            id="sample-file"
+            type="file"
+            accept={ACCEPTED_FILES}
+            disabled={isReading || isSaving}
+            onChange={(event) => chooseFile(event.target.files?.[0])}
+          />
+        </div>
+
+        {isReading && <p className="text-sm text-muted-foreground">{t('import.reading')}</p>}
+        {readError && file && <p className="text-sm text-destructive">{t('import.readFailed', { file: file.name })}</p>}
+
+        {result && (
+          <div className="space-y-3 min-w-0">
+            <div className="flex flex-wrap items-center gap-1 text-xs">
+              <span className="text-muted-foreground mr-1">{t('import.columns')}</span>
+              {result.columns.filter(column => column.header.trim()).map((column, index) => (
+                <Badge
+                  key={index}
+                  variant={column.field ? 'secondary' : 'outline'}
+                  className={cn(!column.field && 'text-muted-foreground')}
+                  title={column.issue ? issueText(column.issue, t) : undefined}
+                >
+                  {column.header}
+                  {' → '}
+                  {column.field ? fieldName(column.field, t) : t('import.ignored')}
+                  {column.issue && <AlertTriangle className="ml-1 h-3 w-3 text-status-permissible" />}
+                </Badge>
+              ))}
+            </div>
+
+            {result.missing.length > 0 ? (
+              <p className="text-sm text-destructive">
+                {t('import.missingColumns', { fields: formatList(locale, result.missing.map(field => fieldName(field, t))) })}
+              </p>
+            ) : (
+              <>
+                <p className="text-sm">
+                  {t('import.summary', { ready: importable.length, total: result.rows.length })}
+                </p>
+                <ScrollArea className="h-72 rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('import.row')}</TableHead>
+                        <TableHead>{t('import.field.location')}</TableHead>
+                        <TableHead>{t('import.field.date')}</TableHead>
+                        {showsLevel && <TableHead className="text-right">{t('import.field.waterLevel')}</TableHead>}
+                        {shownParameters.map(id => (
+                          <TableHead key={id} className="text-right">{parameters[id].shortName}</TableHead>
+                        ))}
+                        <TableHead>{t('import.issues')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.rows.slice(0, PREVIEW_ROWS).map(({ line, sample, issues }) => (
+                        <TableRow key={line} className={cn(!isImportable({ line, sample, issues }) && 'text-muted-foreground')}>
+                          <TableCell>{line}</TableCell>
+                          <TableCell className="font-medium">{sample.location}</TableCell>
+                          <TableCell className="whitespace-nowrap">{sample.date && formatDate(locale, sample.date)}</TableCell>
+                          {showsLevel && (
+                            <TableCell className="text-right whitespace-nowrap">
+                              {sample.waterLevel !== undefined && formatLength(locale, sample.waterLevel, lengthUnit)}
+                            </TableCell>
+                          )}
+                          {shownParameters.map(id => (
+                            <TableCell key={id} className="text-right whitespace-nowrap">
+                              {sample.readings[id] !== undefined &&
+                                formatMeasurement(locale, sample.readings[id], parameters[id].unit, concentrationUnit)}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-xs">
+                            {issues.map((issue, index) => (
+                              <div
+                                key={index}
+                                className={cn('flex items-start gap-1', issue.severity === 'error' ? 'text-destructive' : 'text-status-permissible')}
+                              >
+                                {issue.severity === 'error'
+                                  ? <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                  : <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />}
+                                {issueText(issue, t)}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+                {result.rows.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-muted-foreground">
+                    {t('import.previewMore', { shown: PREVIEW_ROWS, total: result.rows.length })}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>{t('import.cancel')}</Button>
+          <Button onClick={confirm} disabled={importable.length === 0 || isSaving}>
+            {t('import.confirm', { count: importable.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useRef } from 'react';
+import { BarChart, Bar, Line, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CloudRain } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { formatLength, formatLengthValue, formatMillimetres, formatNumber, formatYear, lengthUnitLabel, toLengthUnit } from '@/lib/format';
+import { locationName } from '@/lib/gazetteer';
+import type { LocationSeries } from '@/lib/groundwater-repository';
+import { seasonalCsv } from '@/lib/groundwater-export';
+import { analyseSeasons } from '@/lib/seasonal-analysis';
+import { levelMeasures } from '@/lib/water-level';
+import { ExportMenu } from './ExportMenu';
+
+interface SeasonalAnalysisProps {
+  series: LocationSeries;
+}
+
+// Changes are rises of the water table, whichever way the series measures it, so positive means more water
+const changeClass = (value: number) => (value < 0 ? 'text-status-unsafe' : 'text-status-acceptable');
+
+export const SeasonalAnalysis: React.FC<SeasonalAnalysisProps> = ({ series }) => {
+  const levelsChartRef = useRef<HTMLDivElement>(null);
+  const rechargeChartRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+  const [{ lengthUnit }] = useSettings();
+  const analysis = analyseSeasons(series);
+
+  if (!analysis) {
+    return (
+      <Card>
+        <CardContent className="p-4 text-sm text-muted-foreground">
+          {t('seasonal.unavailable')}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { latest, decadal } = analysis;
+  const exportSeasons = () => seasonalCsv(series, analysis.years);
+  const place = locationName(series.locationId, series.name, locale);
+  const levelsTitle = t('seasonal.title', { place });
+  const aquifer = t(`aquifer.${analysis.aquifer}`).toLocaleLowerCase(locale);
+  const length = (metres: number) => formatLength(locale, metres, lengthUnit);
+  const change = (metres: number) => formatLength(locale, metres, lengthUnit, { signed: true });
+  const formatYearTick = (year: string | number) => formatYear(locale, year);
+  const formatTick = (value: number) => formatNumber(locale, value);
+  // Levels are plotted in the chosen unit
+  const levelData = analysis.years.map((year) => ({
+    ...year,
+    preMonsoon: toLengthUnit(year.preMonsoon, lengthUnit),
+    postMonsoon: toLengthUnit(year.postMonsoon, lengthUnit),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <div className="space-y-1">
+            <CardTitle>{levelsTitle}</CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {decadal ? t('seasonal.subtitleWithMeans', { period: decadal.period }) : t('seasonal.subtitle')}
+            </p>
+          </div>
+          <ExportMenu filename={`${series.locationId}-seasonal`} csv={exportSeasons} chartRef={levelsChartRef} />
+        </CardHeader>
+        <CardContent ref={levelsChartRef} data-export-chart={levelsTitle}>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={levelData}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="year" tickFormatter={formatYearTick} />
+              <YAxis
+                reversed={levelMeasures[series.levelMeasure].reversedAxis}
+                tickFormatter={formatTick}
+                label={{
+                  value: t('chart.waterLevelAxis', { unit: lengthUnitLabel(locale, lengthUnit), measure: series.levelMeasure }),
+                  angle: -90,
+                  position: 'insideLeft',
+                }}
+              />
+              <Tooltip labelFormatter={formatYearTick} formatter={(value) => formatLengthValue(locale, Number(value), lengthUnit)} />
+              <Legend />
+              {decadal && (
+                <>
+                  <ReferenceLine y={toLengthUnit(decadal.preMonsoonMean, lengthUnit)} stroke="hsl(var(--accent))" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                  <ReferenceLine y={toLengthUnit(decadal.postMonsoonMean, lengthUnit)} stroke="hsl(var(--primary))" strokeDasharray="4 4" ifOverflow="extendDomain" />
+                </>
+              )}
+              <Bar dataKey="preMonsoon" name={t('seasonal.preMonsoon')} fill="hsl(var(--accent))" />
+              <Bar dataKey="postMonsoon" name={t('seasonal.postMonsoon')} fill="hsl(var(--primary))" />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className={cn('text-2xl font-bold', changeClass(latest.fluctuation))}>{change(latest.fluctuation)}</div>
+            <div className="text-sm text-muted-foreground">{t('seasonal.fluctuationStat', { year: latest.year })}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold">{formatMillimetres(locale, latest.rechargeMm)}</div>
+            <div className="text-sm text-muted-foreground">
+              {t('seasonal.rechargeStat', { percent: Math.round(analysis.rechargeFactor * 100) })}
+            </div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4 text-center">
+            <div className="text-2xl font-bold">{formatNumber(locale, analysis.rechargeVolumePerKm2, 0)} m³</div>
+            <div className="text-sm text-muted-foreground">{t('seasonal.rechargeVolume', { aquifer })}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <CloudRain className="h-5 w-5 text-primary" />
+            {t('seasonal.rechargeTitle')}
+          </CardTitle>
+          <ExportMenu filename={`${series.locationId}-recharge`} csv={exportSeasons} chartRef={rechargeChartRef} />
+        </CardHeader>
+        <CardContent ref={rechargeChartRef} data-export-chart={t('seasonal.rechargeExport', { place })}>
+          <ResponsiveContainer width="100%" height={220}>
+            <ComposedChart data={analysis.years}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="year" tickFormatter={formatYearTick} />
+              <YAxis yAxisId="left" tickFormatter={formatTick} label={{ value: t('seasonal.rechargeAxis'), angle: -90, position: 'insideLeft' }} />
+              <YAxis yAxisId="right" orientation="right" tickFormatter={formatTick} label={{ value: t('chart.rainfallAxis'), angle: 90, position: 'insideRight' }} />
+              <Tooltip labelFormatter={formatYearTick} formatter={(value) => formatMillimetres(locale, Number(value))} />
+              <Legend />
+              <Bar yAxisId="left" dataKey="rechargeMm" name={t('seasonal.recharge')} fill="hsl(var(--primary))" />
+              <Line yAxisId="right" type="monotone" dataKey="monsoonRainfall" name={t('seasonal.monsoonRainfall')} stroke="hsl(var(--secondary))" strokeWidth={2} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">{t('seasonal.decadalTitle')}</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {t('seasonal.method', { yield: analysis.specificYield, aquifer })}
+          </p>
+        </CardHeader>
+        <CardContent>
+          {decadal && (
+            <Table className="mb-4">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('seasonal.season')}</TableHead>
+                  <TableHead className="text-right">{formatYear(locale, latest.year)}</TableHead>
+                  <TableHead className="text-right">{t('seasonal.mean', { period: decadal.period })}</TableHead>
+                  <TableHead className="text-right">{t('seasonal.change')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">{t('seasonal.preMonsoon')}</TableCell>
+                  <TableCell className="text-right">{length(latest.preMonsoon)}</TableCell>
+                  <TableCell className="text-right">{length(decadal.preMonsoonMean)}</TableCell>
+                  <TableCell className={cn('text-right font-semibold', changeClass(decadal.preMonsoonChange))}>
+                    {change(decadal.preMonsoonChange)}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell className="font-medium">{t('seasonal.postMonsoon')}</TableCell>
+                  <TableCell className="text-right">{length(latest.postMonsoon)}</TableCell>
+                  <TableCell className="text-right">{length(decadal.postMonsoonMean)}</TableCell>
+                  <TableCell className={cn('text-right font-semibold', changeClass(decadal.postMonsoonChange))}>
+                    {change(decadal.postMonsoonChange)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('seasonal.year')}</TableHead>
+                <TableHead className="text-right">{t('seasonal.may')}</TableHead>
+                <TableHead className="text-right">{t('seasonal.nov')}</TableHead>
+                <TableHead className="text-right">{t('seasonal.fluctuation')}</TableHead>
+                <TableHead className="text-right">{t('seasonal.monsoonRain')}</TableHead>
+                <TableHead className="text-right">{t('seasonal.recharge')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...analysis.years].reverse().map((year) => (
+                <TableRow key={year.year}>
+                  <TableCell className="font-medium">{formatYear(locale, year.year)}</TableCell>
+                  <TableCell className="text-right">{length(year.preMonsoon)}</TableCell>
+                  <TableCell className="text-right">{length(year.postMonsoon)}</TableCell>
+                  <TableCell className={cn('text-right', changeClass(year.fluctuation))}>{change(year.fluctuation)}</TableCell>
+                  <TableCell className="text-right">{formatMillimetres(locale, year.monsoonRainfall)}</TableCell>
+                  <TableCell className="text-right font-semibold">{formatMillimetres(locale, year.rechargeMm)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
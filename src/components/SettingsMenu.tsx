@@ -0,0 +1,105 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { concentrationUnits, lengthUnits, type ConcentrationUnit, type LengthUnit } from '@/lib/format';
+import { isRecognizerSupported, recognizerBackends, type RecognizerBackend } from '@/lib/speech-recognizer';
+import { waterStandards, type WaterStandard } from '@/lib/water-standards';
+import { wqiMethods, type WqiMethod } from '@/lib/water-quality-index';
+
+export const SettingsMenu: React.FC = () => {
+  const [settings, updateSettings] = useSettings();
+  const { t } = useI18n();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="icon" title={t('settings.title')}>
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>{t('settings.recognizer')}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.recognizer}
+          onValueChange={(value) => updateSettings({ recognizer: value as RecognizerBackend })}
+        >
+          {recognizerBackends.map(backend => (
+            <DropdownMenuRadioItem key={backend} value={backend} disabled={!isRecognizerSupported(backend)}>
+              <div className="flex flex-col">
+                <span>{t(`settings.backend.${backend}`)}</span>
+                {!isRecognizerSupported(backend) && (
+                  <span className="text-xs text-muted-foreground">{t('settings.unsupported')}</span>
+                )}
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t('settings.waterStandard')}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.waterStandard}
+          onValueChange={(value) => updateSettings({ waterStandard: value as WaterStandard })}
+        >
+          {Object.entries(waterStandards).map(([id, standard]) => (
+            <DropdownMenuRadioItem key={id} value={id}>
+              <div className="flex flex-col">
+                <span>{standard.name}</span>
+                <span className="text-xs text-muted-foreground">{standard.reference}</span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t('settings.wqiMethod')}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.wqiMethod}
+          onValueChange={(value) => updateSettings({ wqiMethod: value as WqiMethod })}
+        >
+          {wqiMethods.map((method) => (
+            <DropdownMenuRadioItem key={method} value={method}>
+              <div className="flex flex-col">
+                <span>{t(`wqi.method.${method}.name`)}</span>
+                <span className="text-xs text-muted-foreground">{t(`wqi.method.${method}.categories`)}</span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t('settings.lengthUnit')}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.lengthUnit}
+          onValueChange={(value) => updateSettings({ lengthUnit: value as LengthUnit })}
+        >
+          {lengthUnits.map((unit) => (
+            <DropdownMenuRadioItem key={unit} value={unit}>
+              {t(`settings.lengthUnit.${unit}`)}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>{t('settings.concentrationUnit')}</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={settings.concentrationUnit}
+          onValueChange={(value) => updateSettings({ concentrationUnit: value as ConcentrationUnit })}
+        >
+          {concentrationUnits.map((unit) => (
+            <DropdownMenuRadioItem key={unit} value={unit}>
+              {unit}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
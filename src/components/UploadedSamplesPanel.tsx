@@ -0,0 +1,93 @@
+import React from 'react';
+import { FileSpreadsheet, Trash2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StatusValue } from './ComplianceCard';
+import { useI18n } from '@/hooks/use-i18n';
+import { useSettings } from '@/hooks/use-settings';
+import { useDeleteSample, useSamples } from '@/hooks/use-samples';
+import { formatDate, formatLength, formatMeasurement } from '@/lib/format';
+import { parameters } from '@/lib/groundwater-parameters';
+import { filterSamples, measuredParameters, type SampleFilter } from '@/lib/uploaded-samples';
+import { classifyParameter, isStandardParameter } from '@/lib/water-standards';
+
+type UploadedSamplesPanelProps = SampleFilter;
+
+export const UploadedSamplesPanel: React.FC<UploadedSamplesPanelProps> = ({ locationIds, timeRange }) => {
+  const { data: allSamples = [], isLoading } = useSamples();
+  const { mutate: deleteSample } = useDeleteSample();
+  const [{ waterStandard, lengthUnit, concentrationUnit }] = useSettings();
+  const { locale, t } = useI18n();
+
+  if (isLoading) return null;
+
+  const samples = filterSamples(allSamples, { locationIds, timeRange });
+  const shownParameters = measuredParameters(samples);
+  const showsLevel = samples.some(sample => sample.waterLevel !== undefined);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <FileSpreadsheet className="h-4 w-4 text-primary" />
+        {t('samples.title')}
+      </div>
+      {samples.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('samples.empty')}</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('import.field.location')}</TableHead>
+              <TableHead>{t('import.field.date')}</TableHead>
+              {showsLevel && <TableHead className="text-right">{t('import.field.waterLevel')}</TableHead>}
+              {shownParameters.map(id => (
+                <TableHead key={id} className="text-right">{parameters[id].shortName}</TableHead>
+              ))}
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {samples.map(sample => (
+              <TableRow key={sample.id}>
+                <TableCell className="font-medium" title={t('samples.source', { file: sample.source })}>
+                  {sample.location}
+                </TableCell>
+                <TableCell className="whitespace-nowrap">{formatDate(locale, sample.date)}</TableCell>
+                {showsLevel && (
+                  <TableCell className="text-right whitespace-nowrap">
+                    {sample.waterLevel !== undefined &&
+                      `${formatLength(locale, sample.waterLevel, lengthUnit)} ${t('samples.levelMeasure', { measure: sample.levelMeasure })}`}
+                  </TableCell>
+                )}
+                {shownParameters.map(id => {
+                  const value = sample.readings[id];
+                  return (
+                    <TableCell key={id} className="text-right whitespace-nowrap">
+                      {value !== undefined && (
+                        <StatusValue status={isStandardParameter(id) ? classifyParameter(id, value, waterStandard) : null}>
+                          {formatMeasurement(locale, value, parameters[id].unit, concentrationUnit)}
+                        </StatusValue>
+                      )}
+                    </TableCell>
+                  );
+                })}
+                <TableCell className="w-8 p-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title={t('samples.remove')}
+                    onClick={() => deleteSample(sample.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ChevronDown, Gauge } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { useI18n } from '@/hooks/use-i18n';
+import type { GroundwaterDataPoint } from '@/lib/groundwater-repository';
+import { formatLimit, type WaterStandard } from '@/lib/water-standards';
+import { computeWqi, wqiCategoryStatus, type WqiMethod } from '@/lib/water-quality-index';
+import { StatusValue } from './ComplianceCard';
+
+interface WqiBreakdownProps {
+  point: GroundwaterDataPoint;
+  method: WqiMethod;
+  standard: WaterStandard;
+}
+
+const percent = (value: number) => `${Math.round(value * 1000) / 10}%`;
+
+export const WqiBreakdown: React.FC<WqiBreakdownProps> = ({ point, method, standard }) => {
+  const [open, setOpen] = useState(false);
+  const { t } = useI18n();
+  const wqi = computeWqi(point, method, standard);
+  if (!wqi) return null;
+
+  const isCcme = method === 'ccme';
+
+  return (
+    <Card>
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="flex-row items-center justify-between space-y-0">
+          <div className="space-y-1">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Gauge className="h-5 w-5 text-primary" />
+              {t('wqi.breakdown.title', { year: point.year })}{' '}
+              <StatusValue status={wqiCategoryStatus[wqi.category]}>{wqi.value}</StatusValue>
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              {t('wqi.breakdown.method', { method: t(`wqi.method.${method}.name`), category: t(`wqi.category.${wqi.category}`) })}
+            </p>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="text-xs">
+              {open ? t('wqi.breakdown.hide') : t('wqi.breakdown.show')}
+              <ChevronDown className={cn('h-4 w-4 ml-1 transition-transform', open && 'rotate-180')} />
+            </Button>
+          </CollapsibleTrigger>
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-3">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('wqi.breakdown.parameter')}</TableHead>
+                  <TableHead className="text-right">{t('wqi.breakdown.measured')}</TableHead>
+                  <TableHead className="text-right">{isCcme ? t('wqi.breakdown.objective') : t('wqi.breakdown.standard')}</TableHead>
+                  <TableHead className="text-right">{t('wqi.breakdown.weight')}</TableHead>
+                  <TableHead className="text-right">{isCcme ? t('wqi.breakdown.excursion') : t('wqi.breakdown.rating')}</TableHead>
+                  <TableHead className="text-right">{t('wqi.breakdown.contribution')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {wqi.contributions.map((item) => (
+                  <TableRow key={item.parameter}>
+                    <TableCell className="font-medium">{t(`parameter.${item.parameter}.name`)}</TableCell>
+                    <TableCell className="text-right">{item.value}</TableCell>
+                    <TableCell className="text-right">{formatLimit(item.parameter, item.objective)}</TableCell>
+                    <TableCell className="text-right">{percent(item.weight)}</TableCell>
+                    <TableCell className="text-right">{isCcme ? `${item.subIndex}%` : item.subIndex}</TableCell>
+                    <TableCell className="text-right font-semibold">{item.contribution}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {wqi.factors && (
+              <p className="text-xs">
+                {t('wqi.breakdown.factors', wqi.factors)}
+                WQI = 100 − √(F1² + F2² + F3²) ÷ 1.732
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">{t(`wqi.method.${method}.scheme`)}</p>
+            <p className="text-xs text-muted-foreground">{t(`wqi.method.${method}.categories`)}</p>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+};
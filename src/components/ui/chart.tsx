@@ -1,6 +1,8 @@
 import * as React from "react";
 import * as RechartsPrimitive from "recharts";
 
+import { useI18n } from "@/hooks/use-i18n";
+import { formatNumber } from "@/lib/format";
 import { cn } from "@/lib/utils";
 
 // Format: { THEME_NAME: CSS_SELECTOR }
@@ -119,6 +121,7 @@ const ChartTooltipContent = React.forwardRef<
     ref,
   ) => {
     const { config } = useChart();
+    const { locale } = useI18n();
 
     const tooltipLabel = React.useMemo(() => {
       if (hideLabel || !payload?.length) {
@@ -209,7 +212,7 @@ const ChartTooltipContent = React.forwardRef<
                       </div>
                       {item.value && (
                         <span className="font-mono font-medium tabular-nums text-foreground">
-                          {item.value.toLocaleString()}
+                          {typeof item.value === "number" ? formatNumber(locale, item.value) : item.value}
                         </span>
                       )}
                     </div>
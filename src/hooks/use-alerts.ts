@@ -0,0 +1,111 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { toast } from "@/components/ui/sonner";
+import { addAlerts, deleteAlert, listAlerts, markAlertNotified } from "@/lib/alert-store";
+import { describeAlertRule, evaluateAlert, formatAlertValue, type AlertEvaluation, type AlertRuleInput } from "@/lib/alerts";
+import { formatYear } from "@/lib/format";
+import { displayName, gazetteer } from "@/lib/gazetteer";
+import { translator, type Locale } from "@/lib/i18n";
+import type { LocationSeries } from "@/lib/groundwater-repository";
+import { getSettings } from "@/lib/settings";
+import { requestNotificationPermission, showNotification } from "@/lib/notifications";
+import { groundwaterSeriesKey, groundwaterSeriesQuery } from "@/hooks/use-groundwater-series";
+
+export const alertsQuery = {
+  queryKey: ["alerts"] as const,
+  queryFn: listAlerts,
+};
+
+export function useAlerts() {
+  return useQuery(alertsQuery);
+}
+
+export function useAddAlerts() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (inputs: AlertRuleInput[]) => addAlerts(inputs),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: alertsQuery.queryKey });
+      // Setting up an alert is the natural moment to ask for system notifications
+      requestNotificationPermission();
+    },
+  });
+}
+
+export function useDeleteAlert() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteAlert,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: alertsQuery.queryKey }),
+  });
+}
+
+function notify({ rule, value, year }: AlertEvaluation, locale: Locale) {
+  const t = translator(locale);
+  const entry = gazetteer.get(rule.locationId);
+  const units = getSettings();
+  const condition = describeAlertRule(rule, locale, units);
+  const title = t("alerts.notification.title", { place: entry ? displayName(entry, locale) : rule.locationId });
+  const body = t("alerts.notification.body", {
+    condition: `${condition.charAt(0).toLocaleUpperCase(locale)}${condition.slice(1)}`,
+    value: formatAlertValue(rule.metric, value, locale, units),
+    year: formatYear(locale, year),
+  });
+
+  toast.warning(title, { description: body });
+  showNotification(title, { body, tag: rule.id });
+}
+
+async function checkAlerts(queryClient: QueryClient, series: LocationSeries, locale: Locale) {
+  const rules = await queryClient.fetchQuery(alertsQuery);
+  let notified = false;
+  for (const rule of rules.filter((candidate) => candidate.locationId === series.locationId)) {
+    const result = evaluateAlert(rule, series);
+    // Each year's reading raises an alert once, not on every refresh
+    if (!result?.triggered || rule.notifiedYear === result.year) continue;
+    await markAlertNotified(rule.id, result.year);
+    notify(result, locale);
+    notified = true;
+  }
+  if (notified) {
+    queryClient.invalidateQueries({ queryKey: alertsQuery.queryKey });
+  }
+}
+
+/**
+ * Evaluates alert rules whenever a location's series is (re)loaded into the query
+ * cache, and loads every watched location once on start-up so alerts fire without
+ * the user having to ask about the place first.
+ */
+export function useAlertMonitor(locale: Locale) {
+  const queryClient = useQueryClient();
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+
+  useEffect(() => {
+    const check = (series: LocationSeries) =>
+      checkAlerts(queryClient, series, localeRef.current).catch((error) => console.error("Alert check failed:", error));
+
+    const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== "updated" || event.action.type !== "success") return;
+      const [scope, kind] = event.query.queryKey;
+      if (scope === "groundwater" && kind === "series" && event.action.data) {
+        check(event.action.data as LocationSeries);
+      }
+    });
+
+    queryClient
+      .fetchQuery(alertsQuery)
+      .then((rules) => {
+        new Set(rules.map((rule) => rule.locationId)).forEach((id) => {
+          // Series already in the cache will not load again, so check those directly
+          const cached = queryClient.getQueryData<LocationSeries | null>(groundwaterSeriesKey(id));
+          if (cached) check(cached);
+          else queryClient.fetchQuery(groundwaterSeriesQuery(id));
+        });
+      })
+      .catch((error) => console.error("Could not load alerts:", error));
+
+    return unsubscribe;
+  }, [queryClient]);
+}
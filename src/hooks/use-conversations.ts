@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  deleteConversation,
+  getConversation,
+  listConversations,
+  renameConversation,
+  saveMessages,
+  type ChatMessage,
+} from "@/lib/chat-store";
+
+const conversationsKey = ["conversations"] as const;
+
+export const conversationKey = (id: string) => ["conversations", id] as const;
+
+export function useConversations() {
+  return useQuery({
+    queryKey: conversationsKey,
+    queryFn: listConversations,
+  });
+}
+
+export function useConversation(id: string) {
+  return useQuery({
+    queryKey: conversationKey(id),
+    queryFn: () => getConversation(id),
+    // The open chat owns its messages; refetching would overwrite them mid-conversation
+    staleTime: Infinity,
+  });
+}
+
+export function useSaveMessages() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, messages }: { id: string; messages: ChatMessage[] }) => saveMessages(id, messages),
+    onSuccess: (conversation) => {
+      queryClient.setQueryData(conversationKey(conversation.id), conversation);
+      queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true });
+    },
+  });
+}
+
+export function useRenameConversation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => renameConversation(id, title),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: conversationKey(id) });
+      queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true });
+    },
+  });
+}
+
+export function useDeleteConversation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteConversation,
+    onSuccess: (_, id: string) => {
+      queryClient.removeQueries({ queryKey: conversationKey(id) });
+      queryClient.invalidateQueries({ queryKey: conversationsKey, exact: true });
+    },
+  });
+}
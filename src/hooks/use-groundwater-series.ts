@@ -0,0 +1,26 @@
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { groundwaterRepository } from "@/lib/groundwater-repository";
+
+export const groundwaterSeriesKey = (locationId: string) => ["groundwater", "series", locationId] as const;
+
+export const groundwaterSeriesQuery = (locationId: string) => ({
+  queryKey: groundwaterSeriesKey(locationId),
+  queryFn: () => groundwaterRepository.getSeries(locationId),
+  staleTime: Infinity,
+});
+
+export function useGroundwaterSeries(locationId: string) {
+  return useQuery(groundwaterSeriesQuery(locationId));
+}
+
+export function useGroundwaterSeriesList(locationIds: string[]) {
+  return useQueries({ queries: locationIds.map(groundwaterSeriesQuery) });
+}
+
+export function useGroundwaterLocations() {
+  return useQuery({
+    queryKey: ["groundwater", "locations"],
+    queryFn: () => groundwaterRepository.listLocations(),
+    staleTime: Infinity,
+  });
+}
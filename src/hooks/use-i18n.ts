@@ -0,0 +1,8 @@
+import { useSettings } from "@/hooks/use-settings";
+import { translator, type Locale, type Translate } from "@/lib/i18n";
+
+/** The chosen UI language, its message formatter and a way to switch language */
+export function useI18n(): { locale: Locale; t: Translate; setLocale: (locale: Locale) => void } {
+  const [{ locale }, updateSettings] = useSettings();
+  return { locale, t: translator(locale), setLocale: (next) => updateSettings({ locale: next }) };
+}
@@ -0,0 +1,28 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addSamples, deleteSample, listSamples } from "@/lib/sample-store";
+import type { SampleInput } from "@/lib/uploaded-samples";
+
+export const samplesQuery = {
+  queryKey: ["samples"] as const,
+  queryFn: listSamples,
+};
+
+export function useSamples() {
+  return useQuery(samplesQuery);
+}
+
+export function useAddSamples() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (inputs: SampleInput[]) => addSamples(inputs),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: samplesQuery.queryKey }),
+  });
+}
+
+export function useDeleteSample() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: deleteSample,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: samplesQuery.queryKey }),
+  });
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getSettings, subscribeSettings, updateSettings, type Settings } from "@/lib/settings";
+
+export function useSettings(): [Settings, (patch: Partial<Settings>) => void] {
+  const settings = useSyncExternalStore(subscribeSettings, getSettings);
+  return [settings, updateSettings];
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  findVoice,
+  isSpeechSynthesisSupported,
+  onVoicesChanged,
+  speak,
+  stopSpeaking,
+  type SpeechLanguage,
+} from "@/lib/speech-synthesis";
+
+export function useSpeechSynthesis(lang: SpeechLanguage) {
+  const [speakingId, setSpeakingId] = useState<string | null>(null);
+  const [voiceAvailable, setVoiceAvailable] = useState(() => Boolean(findVoice(lang)));
+
+  useEffect(() => {
+    const update = () => setVoiceAvailable(Boolean(findVoice(lang)));
+    update();
+    return onVoicesChanged(update);
+  }, [lang]);
+
+  // Never keep talking after the chat is gone
+  useEffect(() => stopSpeaking, []);
+
+  // A message in another language than the interface is read with that language's voice
+  const speakMessage = useCallback(
+    (id: string, text: string, onEnd?: () => void, messageLang: SpeechLanguage = lang) =>
+      speak(text, messageLang, {
+        onStart: () => setSpeakingId(id),
+        onEnd: () => {
+          setSpeakingId((current) => (current === id ? null : current));
+          onEnd?.();
+        },
+      }),
+    [lang],
+  );
+
+  const stop = useCallback(() => {
+    stopSpeaking();
+    setSpeakingId(null);
+  }, []);
+
+  return {
+    supported: isSpeechSynthesisSupported(),
+    voiceAvailable,
+    speakingId,
+    speakMessage,
+    stop,
+  };
+}
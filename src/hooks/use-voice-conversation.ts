@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Locale } from "@/lib/i18n";
+import {
+  containsPhrase,
+  initialVoiceState,
+  isCapturing,
+  stopPhrases,
+  stripWakePhrase,
+  voiceReducer,
+  wakePhrases,
+  type VoiceEvent,
+  type VoiceState,
+} from "@/lib/voice-conversation";
+import {
+  createSpeechRecognizer,
+  resolveRecognizerBackend,
+  type RecognitionLanguage,
+  type RecognitionResult,
+  type RecognizerBackend,
+  type SpeechRecognizer,
+} from "@/lib/speech-recognizer";
+
+// Errors that will not go away by simply listening again
+const FATAL_ERRORS = new Set(["not-allowed", "service-not-allowed", "audio-capture", "network"]);
+
+interface VoiceConversationOptions {
+  /** Preferred engine; another one is used if this browser cannot run it */
+  backend: RecognizerBackend;
+  lang: RecognitionLanguage;
+  /** Which wake/stop phrases to listen for */
+  phraseLanguage: Locale;
+  /** A final transcript; in hands-free mode the caller should answer it and then call `responseReady` */
+  onTranscript: (transcript: string, handsFree: boolean) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Drives a speech recognizer from the voice state machine. The recognizer runs
+ * only while the machine is listening or waiting for the wake phrase, so replies
+ * read aloud are never transcribed as the user's next question.
+ */
+export function useVoiceConversation(options: VoiceConversationOptions) {
+  const [state, setState] = useState<VoiceState>(initialVoiceState);
+  // Mirrors `state` synchronously; recognizer events can arrive before React re-renders
+  const stateRef = useRef<VoiceState>(initialVoiceState);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const backend = resolveRecognizerBackend(options.backend);
+  // The offline backend downloads its model before it can listen, so nothing is
+  // created until the user first turns the microphone on
+  const [armed, setArmed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const runningRef = useRef(false);
+
+  const send = useCallback((event: VoiceEvent) => {
+    const next = voiceReducer(stateRef.current, event);
+    if (next !== stateRef.current) {
+      stateRef.current = next;
+      setState(next);
+    }
+  }, []);
+
+  const startRecognition = useCallback(() => {
+    const recognizer = recognizerRef.current;
+    if (!recognizer || runningRef.current) return;
+    try {
+      recognizer.start({ continuous: stateRef.current.handsFree });
+      runningRef.current = true;
+    } catch (error) {
+      console.error("Error starting speech recognition:", error);
+      send({ type: "ERROR", fatal: true });
+      optionsRef.current.onError("start-failed");
+    }
+  }, [send]);
+
+  const handleResult = useCallback((result: RecognitionResult) => {
+    const { phraseLanguage, onTranscript } = optionsRef.current;
+    const interim = result.isFinal ? "" : result.transcript;
+    let final = result.isFinal ? result.transcript : "";
+
+    const current = stateRef.current;
+    const wake = wakePhrases[phraseLanguage];
+
+    if (current.phase === "dormant") {
+      if (!final || !containsPhrase(final, wake)) return;
+      send({ type: "WAKE" });
+      // "Hey Aqua, water level in Pune" wakes up and asks in one go
+      final = stripWakePhrase(final, wake);
+      if (!final) return;
+    }
+
+    if (!final) {
+      send({ type: "INTERIM", transcript: interim });
+      return;
+    }
+
+    if (current.handsFree && containsPhrase(final, stopPhrases[phraseLanguage])) {
+      send({ type: "SLEEP" });
+      return;
+    }
+
+    const transcript = stripWakePhrase(final, wake);
+    if (!transcript) return;
+    const { handsFree } = stateRef.current;
+    send({ type: "FINAL" });
+    onTranscript(transcript, handsFree);
+  }, [send]);
+
+  const handleError = useCallback((error: string) => {
+    console.error("Speech recognition error:", error);
+    const fatal = FATAL_ERRORS.has(error);
+    // Hands-free mode hears silence all the time; only interrupt it for real failures
+    if (fatal || !stateRef.current.handsFree) {
+      optionsRef.current.onError(error);
+    }
+    send({ type: "ERROR", fatal: fatal || !stateRef.current.handsFree });
+  }, [send]);
+
+  const handleEnd = useCallback(() => {
+    runningRef.current = false;
+    send({ type: "RECOGNITION_END" });
+    if (isCapturing(stateRef.current.phase)) {
+      startRecognition();
+    }
+  }, [send, startRecognition]);
+
+  // One recognizer per engine and language; switching either mid-conversation carries on listening
+  useEffect(() => {
+    if (!backend || !armed) return;
+
+    let disposed = false;
+    let recognizer: SpeechRecognizer | null = null;
+    setLoading(true);
+    createSpeechRecognizer(backend, options.lang, { onResult: handleResult, onError: handleError, onEnd: handleEnd })
+      .then((created) => {
+        if (disposed) {
+          created.dispose();
+          return;
+        }
+        recognizer = created;
+        recognizerRef.current = created;
+        setLoading(false);
+        if (isCapturing(stateRef.current.phase)) {
+          startRecognition();
+        }
+      })
+      .catch((error) => {
+        if (disposed) return;
+        console.error("Could not load the speech recognizer:", error);
+        setLoading(false);
+        send({ type: "ERROR", fatal: true });
+        optionsRef.current.onError("model-unavailable");
+      });
+
+    return () => {
+      disposed = true;
+      recognizer?.dispose();
+      runningRef.current = false;
+      recognizerRef.current = null;
+    };
+  }, [armed, backend, options.lang, handleResult, handleError, handleEnd, send, startRecognition]);
+
+  // Start or stop capturing as the conversation moves between phases
+  useEffect(() => {
+    if (isCapturing(state.phase)) {
+      setArmed(true);
+      startRecognition();
+    } else if (runningRef.current) {
+      recognizerRef.current?.stop();
+    }
+  }, [state.phase, startRecognition]);
+
+  return {
+    state,
+    supported: backend !== null,
+    /** Engine actually in use, which differs from the setting when the browser lacks it */
+    backend,
+    loading,
+    pushToTalk: useCallback(() => send({ type: "PUSH_TO_TALK" }), [send]),
+    setHandsFree: useCallback(
+      (enabled: boolean) => send({ type: enabled ? "ENABLE_HANDS_FREE" : "DISABLE_HANDS_FREE" }),
+      [send],
+    ),
+    cancel: useCallback(() => send({ type: "CANCEL" }), [send]),
+    /** The reply to the last transcript is shown; `willSpeak` if it is also being read aloud */
+    responseReady: useCallback((willSpeak: boolean) => send({ type: "RESPONSE_READY", willSpeak }), [send]),
+    speechEnded: useCallback(() => send({ type: "SPEECH_END" }), [send]),
+  };
+}
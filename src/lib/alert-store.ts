@@ -0,0 +1,42 @@
+import { run, update } from "@/lib/database";
+import type { AlertRule, AlertRuleInput } from "@/lib/alerts";
+
+type StoredAlertRule = Omit<AlertRule, "createdAt"> & { createdAt: string };
+
+const revive = (stored: StoredAlertRule): AlertRule => ({ ...stored, createdAt: new Date(stored.createdAt) });
+
+// "WQI below 50" on another index or standard is another rule
+const sameRule = (a: AlertRuleInput, b: AlertRuleInput) =>
+  a.locationId === b.locationId &&
+  a.metric === b.metric &&
+  a.comparator === b.comparator &&
+  a.threshold === b.threshold &&
+  a.wqiMethod === b.wqiMethod &&
+  a.waterStandard === b.waterStandard;
+
+/** Oldest first, so the list reads in the order the user set the alerts up */
+export async function listAlerts(): Promise<AlertRule[]> {
+  const stored = await run<StoredAlertRule[]>("alerts", "readonly", (store) => store.getAll());
+  return stored.map(revive).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/** Adds the rules, skipping any the user already watches; returns the rules that were new */
+export async function addAlerts(inputs: AlertRuleInput[]): Promise<AlertRule[]> {
+  const existing = await listAlerts();
+  const created = inputs
+    .filter((input, index) => !existing.some((rule) => sameRule(rule, input)) && inputs.findIndex((other) => sameRule(other, input)) === index)
+    .map((input) => ({ ...input, id: crypto.randomUUID(), createdAt: new Date() }));
+
+  for (const rule of created) {
+    await run("alerts", "readwrite", (store) => store.put({ ...rule, createdAt: rule.createdAt.toISOString() }));
+  }
+  return created;
+}
+
+export async function markAlertNotified(id: string, year: string): Promise<void> {
+  await update<StoredAlertRule>("alerts", id, (current) => current && { ...current, notifiedYear: year });
+}
+
+export async function deleteAlert(id: string): Promise<void> {
+  await run("alerts", "readwrite", (store) => store.delete(id));
+}
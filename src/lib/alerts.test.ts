@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { alertRulesFor, describeAlertRule, evaluateAlert } from "@/lib/alerts";
+import type { LocationSeries } from "@/lib/groundwater-repository";
+
+// Clean water: weighted arithmetic rates it excellent (low), CCME 100
+const series: LocationSeries = {
+  locationId: "delhi",
+  name: "Delhi",
+  state: "Delhi",
+  levelMeasure: "mbgl",
+  yearly: [{ year: "2024", waterLevel: 10, tds: 200, ph: 7.2, fluoride: 0.4 }],
+  monthly: [],
+};
+
+// Well past the TDS and fluoride limits: weighted arithmetic far above 100, CCME poor
+const polluted: LocationSeries = {
+  ...series,
+  yearly: [{ year: "2024", waterLevel: 10, tds: 2500, ph: 7.2, fluoride: 3 }],
+};
+
+const metric = { lengthUnit: "m", concentrationUnit: "mg/L" } as const;
+const imperial = { lengthUnit: "ft", concentrationUnit: "ppm" } as const;
+
+describe("quality alerts", () => {
+  it("reads a threshold given the other way round on the index the user has chosen", () => {
+    // "WQI drops below 50" is a CCME-style reading; weighted arithmetic rises as water worsens
+    const [rule] = alertRulesFor("delhi", { metric: "quality", comparator: "below", threshold: 50 }, {
+      wqiMethod: "weighted-arithmetic",
+      waterStandard: "bis",
+    });
+    expect(rule).toMatchObject({ comparator: "above", threshold: 270, wqiMethod: "weighted-arithmetic" });
+    expect(evaluateAlert(rule, series).triggered).toBe(false);
+    expect(evaluateAlert(rule, polluted).triggered).toBe(true);
+  });
+
+  it.each([
+    ["weighted-arithmetic", "above", 150, 150],
+    ["ccme", "below", 70, 70],
+    ["ccme", "above", 100, 79],
+    ["ccme", "above", 500, 44],
+  ] as const)("keeps %s rules watching for worse water: %s %i", (wqiMethod, comparator, threshold, expected) => {
+    const [rule] = alertRulesFor("delhi", { metric: "quality", comparator, threshold }, { wqiMethod, waterStandard: "bis" });
+    expect(rule).toMatchObject({ comparator: wqiMethod === "ccme" ? "below" : "above", threshold: expected });
+  });
+
+  it("defaults to the poor band of the chosen index", () => {
+    const scale = { waterStandard: "bis" } as const;
+    expect(alertRulesFor("delhi", { metric: "quality" }, { ...scale, wqiMethod: "weighted-arithmetic" })[0]).toMatchObject({
+      comparator: "above",
+      threshold: 100,
+    });
+    expect(alertRulesFor("delhi", { metric: "quality" }, { ...scale, wqiMethod: "ccme" })[0]).toMatchObject({
+      comparator: "below",
+      threshold: 50,
+    });
+  });
+
+  it("evaluates rules saved without a scale on CCME", () => {
+    const result = evaluateAlert({ locationId: "delhi", metric: "quality", comparator: "below", threshold: 50 }, series);
+    expect(result).toMatchObject({ value: 100, triggered: false });
+  });
+
+  it("names the index in the rule", () => {
+    const rule = { metric: "quality", comparator: "above", threshold: 100, wqiMethod: "weighted-arithmetic" } as const;
+    expect(describeAlertRule(rule, "en", metric)).toBe("Weighted arithmetic water quality index above 100");
+  });
+});
+
+describe("describeAlertRule", () => {
+  it.each([
+    [{ metric: "tds", comparator: "above", threshold: 500 }, "en", metric, "TDS above 500 mg/L"],
+    [{ metric: "tds", comparator: "above", threshold: 1000 }, "en", imperial, "TDS above 1,000 ppm"],
+    [{ metric: "levelChange", comparator: "below", threshold: -1 }, "en", imperial, "water level dropping more than 3.3 ft a year"],
+    [{ metric: "tds", comparator: "above", threshold: 500 }, "hi", metric, "TDS ५०० mg/L से ऊपर"],
+  ] as const)("%o in %s", (rule, locale, units, text) => {
+    expect(describeAlertRule(rule, locale, units)).toBe(text);
+  });
+});
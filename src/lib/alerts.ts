@@ -0,0 +1,179 @@
+import { formatLength, formatMeasurement, formatNumber } from "@/lib/format";
+import type { LocationSeries } from "@/lib/groundwater-repository";
+import { translator, type Locale } from "@/lib/i18n";
+import type { Settings } from "@/lib/settings";
+import { waterTableRise } from "@/lib/water-level";
+import { waterStandards, type WaterStandard } from "@/lib/water-standards";
+import { computeWqi, type WqiMethod } from "@/lib/water-quality-index";
+
+/**
+ * `levelChange` is the rise of the water table since the previous year, in metres,
+ * whether the series records depth or elevation; a fall is negative.
+ * `quality` is the water quality index on the scale the rule was created with, so
+ * a threshold keeps its meaning when the user later switches index or standard.
+ */
+export type AlertMetric = "tds" | "quality" | "levelChange";
+
+export type AlertComparator = "above" | "below";
+
+export interface AlertRule {
+  id: string;
+  locationId: string;
+  metric: AlertMetric;
+  comparator: AlertComparator;
+  threshold: number;
+  /** Scale of a quality rule; rules saved before it was recorded used CCME against BIS */
+  wqiMethod?: WqiMethod;
+  waterStandard?: WaterStandard;
+  createdAt: Date;
+  /** Data year that last raised the alert, so each reading notifies once */
+  notifiedYear?: string;
+}
+
+export type AlertRuleInput = Pick<AlertRule, "locationId" | "metric" | "comparator" | "threshold" | "wqiMethod" | "waterStandard">;
+
+/** Index and standard that quality rules are created on */
+export type QualityScale = Pick<AlertRule, "wqiMethod" | "waterStandard">;
+
+export interface AlertEvaluation<R extends AlertRuleInput = AlertRule> {
+  rule: R;
+  value: number;
+  /** Year of the reading that was checked */
+  year: string;
+  triggered: boolean;
+}
+
+// Above the BIS acceptable limit water needs treatment before drinking
+const TDS_ACCEPTABLE_LIMIT = waterStandards.bis.limits.tds.acceptable as number;
+
+/** Rules used when the user asks for alerts without giving a threshold */
+export const defaultAlertRules: Record<AlertMetric, Omit<AlertRuleInput, "locationId">> = {
+  tds: { metric: "tds", comparator: "above", threshold: TDS_ACCEPTABLE_LIMIT },
+  levelChange: { metric: "levelChange", comparator: "below", threshold: -1 },
+  quality: { metric: "quality", comparator: "below", threshold: 50 },
+};
+
+// Weighted arithmetic grows with pollution and rates water poor above 100
+const defaultQualityRules: Record<WqiMethod, Pick<AlertRuleInput, "comparator" | "threshold">> = {
+  "weighted-arithmetic": { comparator: "above", threshold: 100 },
+  ccme: { comparator: "below", threshold: 50 },
+};
+
+// Band edges of each index from the cleanest water to the dirtiest, matching the bands in
+// water-quality-index.ts. The worst weighted arithmetic band is open-ended, so it gets no width.
+const qualityBandEdges: Record<WqiMethod, number[]> = {
+  "weighted-arithmetic": [0, 50, 100, 200, 300, 300],
+  ccme: [100, 94, 79, 64, 44, 0],
+};
+
+/** Moves a quality threshold to the same point within the same band of the other index */
+function translateQualityThreshold(threshold: number, from: WqiMethod, to: WqiMethod): number {
+  const source = qualityBandEdges[from];
+  const target = qualityBandEdges[to];
+  // Ordered from the clean end; thresholds cleaner than the scale clamp to its start
+  const worse = (a: number, b: number) => (source[1] > source[0] ? a > b : a < b);
+  if (!worse(threshold, source[0])) return target[0];
+  const band = source.findIndex((edge, i) => i > 0 && !worse(threshold, edge));
+  // Past the open-ended worst band, which only has a clean edge
+  if (band === -1) return target[target.length - 2];
+  const fraction = source[band] === source[band - 1] ? 0 : (threshold - source[band - 1]) / (source[band] - source[band - 1]);
+  return round1(target[band - 1] + fraction * (target[band] - target[band - 1]));
+}
+
+const defaultRule = (metric: AlertMetric, scale: QualityScale): Omit<AlertRuleInput, "locationId"> =>
+  metric === "quality"
+    ? { ...defaultAlertRules.quality, ...defaultQualityRules[scale.wqiMethod ?? "ccme"], ...scale }
+    : defaultAlertRules[metric];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const latestValue = (series: LocationSeries, rule: AlertRuleInput): { value: number; year: string } | null => {
+  const { metric } = rule;
+  const latest = series.yearly[series.yearly.length - 1];
+  if (!latest) return null;
+  if (metric === "levelChange") {
+    const previous = series.yearly[series.yearly.length - 2];
+    return previous
+      ? { value: round1(waterTableRise(previous.waterLevel, latest.waterLevel, series.levelMeasure)), year: latest.year }
+      : null;
+  }
+  if (metric === "quality") {
+    const wqi = computeWqi(latest, rule.wqiMethod ?? "ccme", rule.waterStandard ?? "bis");
+    return wqi ? { value: wqi.value, year: latest.year } : null;
+  }
+  return { value: latest[metric], year: latest.year };
+};
+
+/** Checks a rule against the latest observed year; null when the series is too short */
+export function evaluateAlert<R extends AlertRuleInput>(rule: R, series: LocationSeries): AlertEvaluation<R> | null {
+  const reading = latestValue(series, rule);
+  if (!reading) return null;
+  const triggered = rule.comparator === "above" ? reading.value > rule.threshold : reading.value < rule.threshold;
+  return { rule, ...reading, triggered };
+}
+
+/** Units values are shown in; rules and readings stay in metres and mg/L */
+export type AlertUnits = Pick<Settings, "lengthUnit" | "concentrationUnit">;
+
+/** A reading of the metric in the user's units: "500 ppm", "+1.2 m", "82.1" */
+export const formatAlertValue = (metric: AlertMetric, value: number, locale: Locale, units: AlertUnits) => {
+  if (metric === "tds") return formatMeasurement(locale, value, "mg/L", units.concentrationUnit);
+  if (metric === "levelChange") return formatLength(locale, value, units.lengthUnit, { signed: true });
+  return formatNumber(locale, value, 1);
+};
+
+/** "TDS above 500 ppm", "water level dropping more than 1 m a year" */
+export function describeAlertRule(
+  rule: Pick<AlertRuleInput, "metric" | "comparator" | "threshold" | "wqiMethod">,
+  locale: Locale,
+  units: AlertUnits
+): string {
+  const t = translator(locale);
+  const { metric, comparator, threshold } = rule;
+  if (metric === "levelChange") {
+    const amount = formatLength(locale, Math.abs(threshold), units.lengthUnit);
+    const falling = comparator === "below" && threshold <= 0;
+    const rising = comparator === "above" && threshold >= 0;
+    if (falling) return t("alerts.rule.levelFalling", { amount });
+    if (rising) return t("alerts.rule.levelRising", { amount });
+  }
+  return t("alerts.rule.threshold", {
+    metric: metric === "quality"
+      ? t("alerts.metric.quality", { method: t(`wqi.method.${rule.wqiMethod ?? "ccme"}.name`) })
+      : t(`alerts.metric.${metric}`),
+    comparator,
+    value: formatAlertValue(metric, threshold, locale, units),
+  });
+}
+
+/**
+ * Turns what the user asked for into rules: one rule when they named a metric,
+ * otherwise the default rule for every metric. Water level is watched as its yearly
+ * change, so "drops more than 1.5 m" becomes a change below -1.5. Quality rules
+ * are read on `scale`, the index and standard the user has chosen, and always
+ * watch for water getting worse.
+ */
+export function alertRulesFor(
+  locationId: string,
+  request: { metric?: "quality" | "tds" | "waterLevel"; comparator?: AlertComparator; threshold?: number },
+  scale: QualityScale
+): AlertRuleInput[] {
+  const { metric, comparator, threshold } = request;
+  if (!metric) {
+    return (Object.keys(defaultAlertRules) as AlertMetric[]).map((key) => ({ ...defaultRule(key, scale), locationId }));
+  }
+  if (metric === "waterLevel") {
+    const rule = { ...defaultAlertRules.levelChange, locationId };
+    if (comparator === "above") return [{ ...rule, comparator, threshold: Math.abs(threshold ?? 1) }];
+    return [{ ...rule, threshold: threshold === undefined ? rule.threshold : -Math.abs(threshold) }];
+  }
+  const rule = defaultRule(metric, scale);
+  if (metric === "quality" && comparator && comparator !== rule.comparator && threshold !== undefined) {
+    // A comparator pointing at cleaner water reads the index the other way round, as
+    // "drops below 50" does on CCME, so the threshold is read on the other index
+    const method = scale.wqiMethod ?? "ccme";
+    const other = method === "ccme" ? "weighted-arithmetic" : "ccme";
+    return [{ ...rule, locationId, threshold: translateQualityThreshold(threshold, other, method) }];
+  }
+  return [{ ...rule, locationId, comparator: comparator ?? rule.comparator, threshold: threshold ?? rule.threshold }];
+}
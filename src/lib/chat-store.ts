@@ -0,0 +1,119 @@
+import { run, update } from "@/lib/database";
+import type { Locale } from "@/lib/i18n";
+import type { Horizon, StressCategory, TimeRange } from "@/lib/intent-parser";
+
+/** What a bot message needs to render its chart or comparison again */
+export interface ChatMessageData {
+  locationId?: string;
+  isPrediction?: boolean;
+  horizon?: Horizon;
+  timeRange?: TimeRange;
+  userLocationId?: string;
+  /** Chart tab to open on, e.g. "seasonal" */
+  tab?: string;
+  /** State and category of a district stress map */
+  state?: string;
+  stressCategory?: StressCategory;
+}
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  isUser: boolean;
+  timestamp: Date;
+  /** Language the text is written in; older messages are in the UI language */
+  locale?: Locale;
+  data?: ChatMessageData;
+  showChart?: boolean;
+  showComparison?: boolean;
+  showAlerts?: boolean;
+  showDistricts?: boolean;
+  /** Uploaded samples for `locations`, or all of them; filtered by `data.timeRange` */
+  showSamples?: boolean;
+  locations?: string[];
+  suggestions?: string[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: ChatMessage[];
+}
+
+// Dates are stored as ISO strings rather than relying on structured cloning, so the
+// records stay readable by anything that treats them as JSON (exports, devtools)
+type Stored<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] extends ChatMessage[] ? StoredMessage[] : T[K] };
+type StoredMessage = Stored<ChatMessage>;
+type StoredConversation = Stored<Conversation>;
+
+const TITLE_LENGTH = 48;
+
+const serialize = (conversation: Conversation): StoredConversation => ({
+  ...conversation,
+  createdAt: conversation.createdAt.toISOString(),
+  updatedAt: conversation.updatedAt.toISOString(),
+  messages: conversation.messages.map((message) => ({ ...message, timestamp: message.timestamp.toISOString() })),
+});
+
+const revive = (stored: StoredConversation): Conversation => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt),
+  messages: stored.messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp) })),
+});
+
+/** Default title: the first question, cut at a word boundary */
+export function titleFromMessages(messages: ChatMessage[]): string {
+  const first = messages.find((message) => message.isUser)?.text.trim() ?? "";
+  if (first.length <= TITLE_LENGTH) return first;
+  const cut = first.slice(0, TITLE_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 0 ? cut.lastIndexOf(" ") : TITLE_LENGTH)}…`;
+}
+
+export const newConversationId = () => crypto.randomUUID();
+
+/** Most recently active first */
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const stored = await run<StoredConversation[]>("conversations", "readonly", (store) => store.getAll());
+  return stored
+    .map(({ id, title, createdAt, updatedAt }) => ({
+      id,
+      title,
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(updatedAt),
+    }))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+export async function getConversation(id: string): Promise<Conversation | null> {
+  const stored = await run<StoredConversation | undefined>("conversations", "readonly", (store) => store.get(id));
+  return stored ? revive(stored) : null;
+}
+
+/** Stores the messages of a conversation, creating it on the first save */
+export async function saveMessages(id: string, messages: ChatMessage[]): Promise<Conversation> {
+  const now = new Date();
+  const stored = await update<StoredConversation>("conversations", id, (current) =>
+    serialize({
+      id,
+      title: current?.title || titleFromMessages(messages),
+      createdAt: current ? new Date(current.createdAt) : now,
+      updatedAt: now,
+      messages,
+    })
+  );
+  return revive(stored);
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  await update<StoredConversation>("conversations", id, (current) => current && { ...current, title });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await run("conversations", "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,84 @@
+/** The app's IndexedDB database, shared by every store that persists on the device */
+const DB_NAME = "aqua-insight";
+// 1: conversations, 2: alerts, 3: samples
+const DB_VERSION = 3;
+
+export type StoreName = "conversations" | "alerts" | "samples";
+
+const STORES: StoreName[] = ["conversations", "alerts", "samples"];
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        STORES.filter((name) => !request.result.objectStoreNames.contains(name)).forEach((name) =>
+          request.result.createObjectStore(name, { keyPath: "id" })
+        );
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+/** Runs one request in its own transaction and resolves once the transaction commits */
+export async function run<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/** Writes many records in one transaction, so an interrupted import stores none of them */
+export async function putAll(storeName: StoreName, records: unknown[]): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    records.forEach((record) => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Read-modify-write of one record inside a single transaction, so two writers (a
+ * rename from the sidebar and a new message from the chat, say) cannot overwrite
+ * each other. Returning null from `change` leaves the record untouched.
+ */
+export async function update<T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  change: (current: T | undefined) => T | null
+): Promise<T | null> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    let result: T | null = null;
+    const read = store.get(key);
+    read.onsuccess = () => {
+      result = change(read.result);
+      if (result) store.put(result);
+    };
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
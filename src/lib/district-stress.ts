@@ -0,0 +1,135 @@
+import assessment from "@/data/district-extraction.json";
+import boundaries from "@/data/district-boundaries.json";
+import { formatList, translator, type Locale } from "@/lib/i18n";
+import type { StressCategory } from "@/lib/intent-parser";
+
+export interface DistrictAssessment {
+  id: string;
+  name: string;
+  state: string;
+  /** Annual extraction as a percentage of annual extractable recharge */
+  stageOfExtraction: number;
+  /** Annual extractable recharge in million cubic metres */
+  extractableRecharge: number;
+  /** Annual groundwater extraction in million cubic metres */
+  extraction: number;
+  category: StressCategory;
+}
+
+export interface DistrictFeature {
+  type: "Feature";
+  properties: { id: string; name: string; state: string };
+  geometry: { type: "Polygon"; coordinates: number[][][] };
+}
+
+export interface DistrictFilter {
+  state?: string;
+  category?: StressCategory;
+}
+
+/** Categories from least to most stressed */
+export const stressCategories: StressCategory[] = ["safe", "semiCritical", "critical", "overExploited"];
+
+// Names of the assessed states in the other UI languages; English is the key
+const stateNames: Record<string, Partial<Record<Locale, string>>> = {
+  Delhi: { hi: "दिल्ली", mr: "दिल्ली", ta: "டெல்லி", te: "ఢిల్లీ", bn: "দিল্লি", kn: "ದೆಹಲಿ", gu: "દિલ્હી" },
+  Haryana: { hi: "हरियाणा", mr: "हरियाणा", ta: "ஹரியானா", te: "హర్యానా", bn: "হরিয়ানা", kn: "ಹರಿಯಾಣ", gu: "હરિયાણા" },
+  Karnataka: { hi: "कर्नाटक", mr: "कर्नाटक", ta: "கர்நாடகா", te: "కర్ణాటక", bn: "কর্ণাটক", kn: "ಕರ್ನಾಟಕ", gu: "કર્ણાટક" },
+  Punjab: { hi: "पंजाब", mr: "पंजाब", ta: "பஞ்சாப்", te: "పంజాబ్", bn: "পাঞ্জাব", kn: "ಪಂಜಾಬ್", gu: "પંજાબ" },
+  Rajasthan: { hi: "राजस्थान", mr: "राजस्थान", ta: "ராஜஸ்தான்", te: "రాజస్థాన్", bn: "রাজস্থান", kn: "ರಾಜಸ್ಥಾನ", gu: "રાજસ્થાન" },
+  "Tamil Nadu": { hi: "तमिलनाडु", mr: "तमिळनाडू", ta: "தமிழ்நாடு", te: "తమిళనాడు", bn: "তামিলনাড়ু", kn: "ತಮಿಳುನಾಡು", gu: "તમિલનાડુ" },
+};
+
+export const stateName = (state: string, locale: Locale) => stateNames[state]?.[locale] ?? state;
+
+/** CGWB bands: up to 70% safe, up to 90% semi-critical, up to 100% critical, beyond that over-exploited */
+export function stressCategory(stageOfExtraction: number): StressCategory {
+  if (stageOfExtraction <= 70) return "safe";
+  if (stageOfExtraction <= 90) return "semiCritical";
+  if (stageOfExtraction <= 100) return "critical";
+  return "overExploited";
+}
+
+const cssNames: Record<StressCategory, string> = {
+  safe: "safe",
+  semiCritical: "semi-critical",
+  critical: "critical",
+  overExploited: "over-exploited",
+};
+
+export const stressColor = (category: StressCategory) => `hsl(var(--stress-${cssNames[category]}))`;
+
+export const districtSource = assessment.source;
+
+export const districts: DistrictAssessment[] = assessment.districts.map((district) => ({
+  ...district,
+  category: stressCategory(district.stageOfExtraction),
+}));
+
+export const districtFeatures = boundaries.features as DistrictFeature[];
+
+/** States the bundled assessment covers, alphabetically */
+export const assessedStates = [...new Set(districts.map((district) => district.state))].sort();
+
+/** First assessed state named in the text, in any UI language */
+export function matchState(text: string): string | undefined {
+  const normalized = text.toLowerCase();
+  return assessedStates.find((state) =>
+    [state.toLowerCase(), ...Object.values(stateNames[state] ?? {})].some((name) => normalized.includes(name))
+  );
+}
+
+export function filterDistricts({ state, category }: DistrictFilter): DistrictAssessment[] {
+  return districts.filter(
+    (district) => (!state || district.state === state) && (!category || district.category === category)
+  );
+}
+
+/** Most stressed first */
+const byStage = (a: DistrictAssessment, b: DistrictAssessment) => b.stageOfExtraction - a.stageOfExtraction;
+
+const MAX_LISTED = 8;
+
+const listDistricts = (list: DistrictAssessment[], locale: Locale) => {
+  const shown = [...list].sort(byStage).slice(0, MAX_LISTED).map((district) => `${district.name} (${district.stageOfExtraction}%)`);
+  const more = list.length - shown.length;
+  return formatList(locale, more === 0 ? shown : [...shown, translator(locale)("districts.more", { count: more })]);
+};
+
+/** One or two sentences summarising the districts of a state, or one category of them */
+export function describeDistrictStress({ state, category }: DistrictFilter, locale: Locale): string {
+  const t = translator(locale);
+  const scope = filterDistricts({ state });
+  const place = state ? stateName(state, locale) : t("districts.allStates");
+  if (scope.length === 0) {
+    return t("districts.summary.noAssessment", { place });
+  }
+
+  if (category) {
+    const matching = scope.filter((district) => district.category === category);
+    const label = t(`stress.category.${category}`).toLocaleLowerCase(locale);
+    return matching.length === 0
+      ? t("districts.summary.none", { place, category: label })
+      : t("districts.summary.matching", {
+          matching: matching.length,
+          total: scope.length,
+          place,
+          category: label,
+          list: listDistricts(matching, locale),
+        });
+  }
+
+  const counts = stressCategories
+    .map((item) => [item, scope.filter((district) => district.category === item).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([item, count]) => `${t(`stress.category.${item}`)} ${count}`)
+    .join(", ");
+  const worst = [...scope].sort(byStage)[0];
+  return t("districts.summary.overview", {
+    total: scope.length,
+    place,
+    counts,
+    district: worst.name,
+    stage: worst.stageOfExtraction,
+  });
+}
@@ -0,0 +1,137 @@
+export type ChartImageFormat = "png" | "svg";
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | boolean | undefined | null;
+}
+
+// Quote fields that would otherwise break the row, doubling embedded quotes (RFC 4180)
+const csvField = (value: string | number | boolean | undefined | null) => {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((column) => csvField(column.header)).join(",")];
+  rows.forEach((row) => lines.push(columns.map((column) => csvField(column.value(row))).join(",")));
+  return lines.join("\r\n");
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadCsv(csv: string, filename: string) {
+  // The byte order mark makes Excel read the file as UTF-8, which Hindi names need
+  downloadBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+/** File-name friendly version of a title: "Delhi vs Pune" → "delhi-vs-pune" */
+export const slugify = (text: string) =>
+  text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "") || "export";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+const CSS_VARIABLE = /var\((--[\w-]+)\)/g;
+
+// Chart colours are written as hsl(var(--primary)); a standalone SVG has no stylesheet,
+// so substitute the values from the current theme
+const resolveCssVariables = (text: string, styles: CSSStyleDeclaration) =>
+  text.replace(CSS_VARIABLE, (match, name: string) => styles.getPropertyValue(name).trim() || match);
+
+/**
+ * Standalone copy of the recharts SVG inside `container`, with theme colours and
+ * fonts resolved and a background so it reads the same outside the page.
+ */
+export function chartToSvg(container: HTMLElement): string {
+  // Legend icons are small recharts surfaces too, so only take the chart's own
+  const chart = container.querySelector<SVGSVGElement>(".recharts-wrapper > svg.recharts-surface");
+  if (!chart) {
+    throw new Error("No chart found to export");
+  }
+
+  const rootStyles = getComputedStyle(document.documentElement);
+  const { width, height } = chart.getBoundingClientRect();
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(Math.round(width)));
+  clone.setAttribute("height", String(Math.round(height)));
+  clone.setAttribute("font-family", getComputedStyle(container).fontFamily);
+  clone.setAttribute("font-size", "12");
+
+  const background = document.createElementNS(SVG_NS, "rect");
+  background.setAttribute("width", "100%");
+  background.setAttribute("height", "100%");
+  background.setAttribute("fill", `hsl(${rootStyles.getPropertyValue("--card").trim()})`);
+  clone.insertBefore(background, clone.firstChild);
+
+  // Legends are HTML next to the SVG, so draw a simple one into the image
+  const legend = Array.from(container.querySelectorAll<HTMLElement>(".recharts-legend-item"));
+  if (legend.length > 0) {
+    const legendHeight = 24;
+    clone.setAttribute("height", String(Math.round(height + legendHeight)));
+    clone.setAttribute("viewBox", `0 0 ${Math.round(width)} ${Math.round(height + legendHeight)}`);
+    let x = 16;
+    legend.forEach((item) => {
+      const icon = item.querySelector("path");
+      const stroke = icon?.getAttribute("stroke");
+      const color = stroke && stroke !== "none" ? stroke : icon?.getAttribute("fill") ?? "currentColor";
+      const label = item.textContent?.trim() ?? "";
+
+      const swatch = document.createElementNS(SVG_NS, "rect");
+      Object.entries({ x, y: height + 7, width: 10, height: 10, fill: color }).forEach(([key, value]) =>
+        swatch.setAttribute(key, String(value))
+      );
+      const text = document.createElementNS(SVG_NS, "text");
+      Object.entries({ x: x + 14, y: height + 16, fill: "currentColor" }).forEach(([key, value]) =>
+        text.setAttribute(key, String(value))
+      );
+      text.textContent = label;
+      clone.append(swatch, text);
+      x += 14 + item.getBoundingClientRect().width;
+    });
+  }
+
+  clone.setAttribute("color", `hsl(${rootStyles.getPropertyValue("--foreground").trim()})`);
+  return resolveCssVariables(new XMLSerializer().serializeToString(clone), rootStyles);
+}
+
+/** Rasterises an SVG string; `scale` 2 keeps text sharp on high-density screens and in print */
+export async function svgToPng(svg: string, scale = 2): Promise<Blob> {
+  const image = new Image();
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    image.src = url;
+    await image.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = image.naturalWidth * scale;
+    canvas.height = image.naturalHeight * scale;
+    const context = canvas.getContext("2d");
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the chart"))), "image/png")
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function downloadChart(container: HTMLElement, format: ChartImageFormat, filename: string) {
+  const svg = chartToSvg(container);
+  const blob = format === "svg" ? new Blob([svg], { type: "image/svg+xml;charset=utf-8" }) : await svgToPng(svg);
+  downloadBlob(blob, `${filename}.${format}`);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { forecast, type ForecastMethod } from "@/lib/forecasting";
+
+// Four years of monthly readings: a steady rise, a yearly cycle and a little fixed noise
+const truth = (i: number) => 10 + 0.05 * i + 2 * Math.sin((2 * Math.PI * i) / 12);
+const noise = (i: number) => 0.1 * (((i * 7) % 5) - 2);
+const history = Array.from({ length: 48 }, (_, i) => truth(i) + noise(i));
+
+const methods: ForecastMethod[] = ["linear-seasonal", "holt-winters"];
+
+describe("forecast", () => {
+  it.each(methods)("%s recovers the trend and the season", (method) => {
+    const { points } = forecast(history, { horizon: 12, period: 12, method });
+    points.forEach(({ step, value }) => expect(value).toBeCloseTo(truth(history.length - 1 + step), 0));
+  });
+
+  it.each(methods)("%s widens the interval with the horizon", (method) => {
+    const widths = forecast(history, { horizon: 24, period: 12, method }).points.map(({ lower, upper }) => upper - lower);
+    widths.slice(1).forEach((width, i) => expect(width).toBeGreaterThan(widths[i]));
+  });
+
+  it("keeps each point inside its interval", () => {
+    forecast(history, { horizon: 12, period: 12 }).points.forEach(({ value, lower, upper }) => {
+      expect(lower).toBeLessThan(value);
+      expect(upper).toBeGreaterThan(value);
+    });
+  });
+
+  it("needs at least three observations", () => {
+    expect(() => forecast([1, 2], { horizon: 1 })).toThrow();
+  });
+});
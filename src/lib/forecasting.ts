@@ -0,0 +1,193 @@
+export type ForecastMethod = "linear-seasonal" | "holt-winters";
+
+export interface ForecastOptions {
+  /** Number of future steps to predict, in units of the input series */
+  horizon: number;
+  /** Season length in steps, e.g. 12 for monthly data; 1 disables seasonality */
+  period?: number;
+  method?: ForecastMethod;
+  /** Two-sided coverage of the prediction interval */
+  confidence?: 0.8 | 0.9 | 0.95 | 0.99;
+}
+
+export interface ForecastPoint {
+  /** Steps ahead of the last observation, starting at 1 */
+  step: number;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastResult {
+  method: ForecastMethod;
+  points: ForecastPoint[];
+  /** Standard deviation of the in-sample one-step residuals */
+  residualStdDev: number;
+}
+
+/** Fewest observations a trend can be fitted to, with a residual spread */
+export const MIN_FORECAST_HISTORY = 3;
+
+const Z_SCORES = { 0.8: 1.2816, 0.9: 1.6449, 0.95: 1.96, 0.99: 2.5758 };
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+interface LinearFit {
+  intercept: number;
+  slope: number;
+  residualStdDev: number;
+  meanX: number;
+  sxx: number;
+}
+
+function fitLinear(values: number[]): LinearFit {
+  const n = values.length;
+  const xs = values.map((_, i) => i);
+  const meanX = mean(xs);
+  const meanY = mean(values);
+  const sxx = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const sxy = xs.reduce((sum, x, i) => sum + (x - meanX) * (values[i] - meanY), 0);
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const sse = values.reduce((sum, y, i) => sum + (y - (intercept + slope * i)) ** 2, 0);
+
+  return {
+    intercept,
+    slope,
+    residualStdDev: n > 2 ? Math.sqrt(sse / (n - 2)) : 0,
+    meanX,
+    sxx,
+  };
+}
+
+/** Mean deviation from the linear trend at each position in the season, centred on zero */
+function seasonalIndices(values: number[], period: number): number[] {
+  const trend = fitLinear(values);
+  const sums = new Array(period).fill(0);
+  const counts = new Array(period).fill(0);
+  values.forEach((value, i) => {
+    sums[i % period] += value - (trend.intercept + trend.slope * i);
+    counts[i % period] += 1;
+  });
+  const raw = sums.map((sum, i) => sum / counts[i]);
+  const offset = mean(raw);
+  return raw.map((index) => index - offset);
+}
+
+// Classical decomposition: remove the seasonal profile, fit a straight line to what is
+// left, then add the profile back onto the extrapolated trend.
+function linearSeasonal(values: number[], horizon: number, period: number, z: number): ForecastResult {
+  const seasonal = period > 1 ? seasonalIndices(values, period) : [0];
+  const seasonOf = (i: number) => seasonal[i % seasonal.length];
+  const fit = fitLinear(values.map((value, i) => value - seasonOf(i)));
+  const n = values.length;
+
+  const points = Array.from({ length: horizon }, (_, h) => {
+    const x = n + h;
+    const value = fit.intercept + fit.slope * x + seasonOf(x);
+    const spread = fit.sxx === 0 ? 1 : Math.sqrt(1 + 1 / n + (x - fit.meanX) ** 2 / fit.sxx);
+    const margin = z * fit.residualStdDev * spread;
+    return { step: h + 1, value, lower: value - margin, upper: value + margin };
+  });
+
+  return { method: "linear-seasonal", points, residualStdDev: fit.residualStdDev };
+}
+
+interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+interface HoltWintersState {
+  level: number;
+  trend: number;
+  seasonal: number[];
+  sse: number;
+  steps: number;
+}
+
+function runHoltWinters(values: number[], period: number, { alpha, beta, gamma }: HoltWintersParams): HoltWintersState {
+  const seasonalLength = Math.max(period, 1);
+  const firstSeason = values.slice(0, seasonalLength);
+  const secondSeason = values.slice(seasonalLength, seasonalLength * 2);
+  let level = mean(firstSeason);
+  let trend = secondSeason.length === seasonalLength ? (mean(secondSeason) - level) / seasonalLength : values[1] - values[0];
+  const seasonal = period > 1 ? firstSeason.map((value) => value - level) : [0];
+  let sse = 0;
+  let steps = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const s = i % seasonal.length;
+    const predicted = level + trend + seasonal[s];
+    if (i >= seasonalLength) {
+      sse += (values[i] - predicted) ** 2;
+      steps += 1;
+    }
+    const previousLevel = level;
+    level = alpha * (values[i] - seasonal[s]) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    if (period > 1) {
+      seasonal[s] = gamma * (values[i] - level) + (1 - gamma) * seasonal[s];
+    }
+  }
+
+  return { level, trend, seasonal, sse, steps };
+}
+
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+const TREND_GRID = [0.01, 0.05, 0.1, 0.2];
+
+// Additive Holt-Winters with smoothing parameters picked by a coarse grid search on
+// in-sample squared error. Interval widths follow the ETS(A,A,A) variance formula.
+function holtWinters(values: number[], horizon: number, period: number, z: number): ForecastResult {
+  let best: { params: HoltWintersParams; state: HoltWintersState } | null = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of TREND_GRID) {
+      for (const gamma of period > 1 ? SMOOTHING_GRID : [0]) {
+        const params = { alpha, beta, gamma };
+        const state = runHoltWinters(values, period, params);
+        if (!best || state.sse < best.state.sse) {
+          best = { params, state };
+        }
+      }
+    }
+  }
+
+  const { params, state } = best;
+  const residualStdDev = state.steps > 0 ? Math.sqrt(state.sse / state.steps) : 0;
+  const n = values.length;
+
+  let variance = 0;
+  const points = Array.from({ length: horizon }, (_, h) => {
+    const step = h + 1;
+    const value = state.level + step * state.trend + state.seasonal[(n + h) % state.seasonal.length];
+    if (step > 1) {
+      const j = step - 1;
+      const seasonalTerm = period > 1 && j % period === 0 ? params.gamma : 0;
+      variance += (params.alpha * (1 + j * params.beta) + seasonalTerm) ** 2;
+    }
+    const margin = z * residualStdDev * Math.sqrt(1 + variance);
+    return { step, value, lower: value - margin, upper: value + margin };
+  });
+
+  return { method: "holt-winters", points, residualStdDev };
+}
+
+/**
+ * Forecasts a regularly spaced series. Seasonal models need at least two full
+ * seasons of history; shorter series fall back to a non-seasonal fit.
+ */
+export function forecast(values: number[], options: ForecastOptions): ForecastResult {
+  const { horizon, method = "linear-seasonal", confidence = 0.95 } = options;
+  const period = options.period && values.length >= options.period * 2 ? options.period : 1;
+  const z = Z_SCORES[confidence];
+
+  if (values.length < MIN_FORECAST_HISTORY) {
+    throw new Error("At least three observations are needed to forecast");
+  }
+
+  return method === "holt-winters"
+    ? holtWinters(values, horizon, period, z)
+    : linearSeasonal(values, horizon, period, z);
+}
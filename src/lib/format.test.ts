@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { formatMeasurement } from "@/lib/format";
+
+describe("formatMeasurement", () => {
+  it.each([
+    [0.002, "mg/L", "0.002 mg/L"],
+    [0.0125, "mg/L", "0.0125 mg/L"],
+    [7.25, "", "7.25"],
+    [1234.567, "mg/L", "1,234.57 mg/L"],
+  ])("%d %s reads %s", (value, unit, text) => {
+    expect(formatMeasurement("en", value, unit, "mg/L")).toBe(text);
+  });
+
+  it("labels mg/L as ppm when asked", () => {
+    expect(formatMeasurement("en", 500, "mg/L", "ppm")).toBe("500 ppm");
+  });
+});
@@ -0,0 +1,128 @@
+import type { Locale } from "@/lib/i18n";
+
+/** Unit water levels and depths are shown in; the data is always in metres */
+export type LengthUnit = "m" | "ft";
+
+/** Label for dissolved concentrations; the data is always in mg/L */
+export type ConcentrationUnit = "mg/L" | "ppm";
+
+export const lengthUnits: LengthUnit[] = ["m", "ft"];
+export const concentrationUnits: ConcentrationUnit[] = ["mg/L", "ppm"];
+
+const FEET_PER_METRE = 3.28084;
+
+const intlUnits: Record<LengthUnit, string> = { m: "meter", ft: "foot" };
+
+/**
+ * Tag for numbers and dates in the language as written in India, which groups
+ * digits in lakhs and crores. Hindi uses Devanagari digits; the other languages
+ * keep their usual digits (Marathi and Bengali already write their own).
+ */
+const formatTag = (locale: Locale) => (locale === "hi" ? "hi-IN-u-nu-deva" : `${locale}-IN`);
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+const numberFormat = (locale: Locale, options: Intl.NumberFormatOptions) => {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(formatTag(locale), options);
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+const dateFormat = (locale: Locale, options: Intl.DateTimeFormatOptions) => {
+  const key = `${locale}:${JSON.stringify(options)}`;
+  let format = dateFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(formatTag(locale), options);
+    dateFormats.set(key, format);
+  }
+  return format;
+};
+
+/** "12,34,567.89", or "१२,३४,५६७.८९" in Hindi */
+export const formatNumber = (locale: Locale, value: number, maximumFractionDigits = 2) =>
+  numberFormat(locale, { maximumFractionDigits }).format(value);
+
+/**
+ * A parameter reading: two decimals at most, but three significant digits below 1
+ * so trace elements such as 0.002 mg/L of arsenic do not round to 0
+ */
+export const formatReading = (locale: Locale, value: number, { signed = false } = {}) =>
+  numberFormat(locale, {
+    ...(Math.abs(value) < 1 ? { maximumSignificantDigits: 3 } : { maximumFractionDigits: 2 }),
+    signDisplay: signed ? "exceptZero" : "auto",
+  }).format(value);
+
+/** "120%" from 120 */
+export const formatPercent = (locale: Locale, percent: number) =>
+  numberFormat(locale, { style: "percent", maximumFractionDigits: 0 }).format(percent / 100);
+
+/** A calendar year, without digit grouping */
+export const formatYear = (locale: Locale, year: number | string) =>
+  numberFormat(locale, { useGrouping: false }).format(Number(year));
+
+/** Converts metres to the display unit, for plotting */
+export const toLengthUnit = (metres: number, unit: LengthUnit) =>
+  unit === "ft" ? Math.round(metres * FEET_PER_METRE * 100) / 100 : metres;
+
+/** A value already in the display unit, as plotted: "12.3 m", "40.4 ft", "१२.३ मी" */
+export const formatLengthValue = (locale: Locale, value: number, unit: LengthUnit, { signed = false } = {}) =>
+  numberFormat(locale, {
+    style: "unit",
+    unit: intlUnits[unit],
+    maximumFractionDigits: 1,
+    signDisplay: signed ? "exceptZero" : "auto",
+  }).format(value);
+
+/** A level or depth in metres, in the display unit */
+export const formatLength = (locale: Locale, metres: number, unit: LengthUnit, options: { signed?: boolean } = {}) =>
+  formatLengthValue(locale, toLengthUnit(metres, unit), unit, options);
+
+/** Rainfall or recharge depth, "120 mm" */
+export const formatMillimetres = (locale: Locale, value: number) =>
+  numberFormat(locale, { style: "unit", unit: "millimeter", maximumFractionDigits: 0 }).format(value);
+
+/** The unit's short name in the language, for axis titles: "m", "मी", "அடி" */
+export const lengthUnitLabel = (locale: Locale, unit: LengthUnit) =>
+  numberFormat(locale, { style: "unit", unit: intlUnits[unit] })
+    .formatToParts(1)
+    .find((part) => part.type === "unit")?.value ?? unit;
+
+/** How a registry unit is labelled under the user's preference: mg/L may read ppm */
+export const displayUnit = (unit: string, concentration: ConcentrationUnit) =>
+  unit === "mg/L" ? concentration : unit;
+
+/** A reading in its registry unit. In dilute groundwater 1 mg/L is 1 ppm, so only the label changes. */
+export const formatMeasurement = (
+  locale: Locale,
+  value: number,
+  unit: string,
+  concentration: ConcentrationUnit,
+  options: { signed?: boolean } = {}
+) => {
+  const label = displayUnit(unit, concentration);
+  const reading = formatReading(locale, value, options);
+  return label ? `${reading} ${label}` : reading;
+};
+
+/** Month of a "YYYY-MM" key, "Mar" or "मार्च" */
+export const formatMonth = (locale: Locale, month: string) =>
+  dateFormat(locale, { month: "short" }).format(new Date(Number(month.slice(0, 4)), Number(month.slice(5)) - 1, 1));
+
+/** Calendar date of a "YYYY-MM-DD" key, "5 Mar 2024" */
+export const formatDate = (locale: Locale, date: string) =>
+  dateFormat(locale, { dateStyle: "medium", timeZone: "UTC" }).format(new Date(`${date}T00:00:00Z`));
+
+/** Date and time, "19 Oct 2026, 6:35 pm" */
+export const formatDateTime = (locale: Locale, date: Date) =>
+  dateFormat(locale, { dateStyle: "medium", timeStyle: "short" }).format(date);
+
+/** Time alone for today, with the date otherwise */
+export const formatTimestamp = (locale: Locale, date: Date, now = new Date()) =>
+  date.toDateString() === now.toDateString()
+    ? dateFormat(locale, { timeStyle: "short" }).format(date)
+    : formatDateTime(locale, date);
@@ -0,0 +1,108 @@
+import entries from "@/data/gazetteer.json";
+import { findNearest, type Coordinates, type NearestResult } from "@/lib/geo";
+import type { Locale } from "@/lib/i18n";
+
+export type PlaceType = "city" | "district" | "village";
+
+export interface GazetteerEntry {
+  /** Canonical id, shared with the groundwater dataset */
+  id: string;
+  name: string;
+  nameHi: string;
+  /** Names in the scripts of the other UI languages, for places with groundwater data */
+  localNames?: Partial<Record<Locale, string>>;
+  aliases: string[];
+  state: string;
+  district: string;
+  type: PlaceType;
+  latitude: number;
+  longitude: number;
+}
+
+export interface LocationMatch {
+  entry: GazetteerEntry;
+  /** The surface form found in the text */
+  matched: string;
+  start: number;
+  end: number;
+}
+
+const normalize = (text: string) => text.normalize("NFC").toLowerCase().replace(/\s+/g, " ");
+
+// A name only counts as a match when it is not glued to other letters, so "agra"
+// does not fire inside "agrarian". Unicode classes keep this working for Devanagari,
+// where combining vowel signs (\p{M}) are part of the word.
+const WORD_CHAR = /[\p{L}\p{M}\p{N}]/u;
+
+const isBoundary = (text: string, index: number) => index < 0 || index >= text.length || !WORD_CHAR.test(text[index]);
+
+// Case endings are written joined to the name in most Indian languages ("दिल्लीत",
+// "டெல்லியில்"), so only names ending in a Latin letter need a boundary after them
+const needsEndBoundary = (form: string) => /[a-z]$/.test(form);
+
+export class Gazetteer {
+  private readonly byId = new Map<string, GazetteerEntry>();
+  // Surface forms sorted longest first so "navi mumbai" wins over "mumbai"
+  private readonly names: Array<{ form: string; entry: GazetteerEntry }>;
+
+  constructor(private readonly entries: GazetteerEntry[]) {
+    const names: Array<{ form: string; entry: GazetteerEntry }> = [];
+    for (const entry of entries) {
+      this.byId.set(entry.id, entry);
+      const forms = new Set(
+        [entry.name, entry.nameHi, ...Object.values(entry.localNames ?? {}), entry.id.replace(/-/g, " "), ...entry.aliases].map(normalize)
+      );
+      forms.forEach((form) => names.push({ form, entry }));
+    }
+    this.names = names.sort((a, b) => b.form.length - a.form.length);
+  }
+
+  get(id: string): GazetteerEntry | undefined {
+    return this.byId.get(id);
+  }
+
+  list(): GazetteerEntry[] {
+    return this.entries;
+  }
+
+  /** Closest place to the given point, optionally limited to entries passing `filter` */
+  nearest(point: Coordinates, filter: (entry: GazetteerEntry) => boolean = () => true): NearestResult<GazetteerEntry> | null {
+    return findNearest(point, this.entries.filter(filter));
+  }
+
+  /** Finds every place named in the text, in order of appearance, without duplicates */
+  resolve(text: string): LocationMatch[] {
+    const haystack = normalize(text);
+    const taken: boolean[] = new Array(haystack.length).fill(false);
+    const matches: LocationMatch[] = [];
+
+    for (const { form, entry } of this.names) {
+      let index = haystack.indexOf(form);
+      while (index !== -1) {
+        const end = index + form.length;
+        const free = !taken.slice(index, end).some(Boolean);
+        if (free && isBoundary(haystack, index - 1) && (!needsEndBoundary(form) || isBoundary(haystack, end))) {
+          taken.fill(true, index, end);
+          matches.push({ entry, matched: form, start: index, end });
+        }
+        index = haystack.indexOf(form, index + 1);
+      }
+    }
+
+    const seen = new Set<string>();
+    return matches
+      .sort((a, b) => a.start - b.start)
+      .filter((match) => !seen.has(match.entry.id) && seen.add(match.entry.id));
+  }
+}
+
+export const gazetteer = new Gazetteer(entries as GazetteerEntry[]);
+
+export const displayName = (entry: GazetteerEntry, locale: Locale) =>
+  locale === "hi" ? entry.nameHi : entry.localNames?.[locale] ?? entry.name;
+
+/** Name of a location in the UI language; `fallback` for places outside the gazetteer */
+export function locationName(locationId: string, fallback: string, locale: Locale): string {
+  const entry = gazetteer.get(locationId);
+  return entry ? displayName(entry, locale) : fallback;
+}
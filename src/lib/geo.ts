@@ -0,0 +1,35 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two points in kilometres */
+export function haversineDistance(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+export interface NearestResult<T> {
+  item: T;
+  distanceKm: number;
+}
+
+/** Linear scan for the closest candidate; returns `null` for an empty list */
+export function findNearest<T extends Coordinates>(origin: Coordinates, candidates: T[]): NearestResult<T> | null {
+  let nearest: NearestResult<T> | null = null;
+  for (const item of candidates) {
+    const distanceKm = haversineDistance(origin, item);
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { item, distanceKm };
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,108 @@
+import { toCsv, type CsvColumn } from "@/lib/export";
+import type { GroundwaterDataPoint, LocationSeries, MonthlyDataPoint } from "@/lib/groundwater-repository";
+import { computeWqi } from "@/lib/water-quality-index";
+import type { SeasonalYear } from "@/lib/seasonal-analysis";
+import type { DistrictAssessment } from "@/lib/district-stress";
+import { parameterIds, parameters } from "@/lib/groundwater-parameters";
+import type { UploadedSample } from "@/lib/uploaded-samples";
+
+type YearlyRow = GroundwaterDataPoint & { location: LocationSeries };
+type MonthlyRow = MonthlyDataPoint & { location: LocationSeries };
+type SeasonalRow = SeasonalYear & { location: LocationSeries };
+
+const locationColumns: CsvColumn<{ location: LocationSeries }>[] = [
+  { header: "location_id", value: (row) => row.location.locationId },
+  { header: "location", value: (row) => row.location.name },
+  { header: "state", value: (row) => row.location.state },
+  // "mbgl" depths or "mamsl" elevations; the water level columns are in this measure
+  { header: "level_measure", value: (row) => row.location.levelMeasure },
+];
+
+const yearlyColumns: CsvColumn<YearlyRow>[] = [
+  ...locationColumns,
+  { header: "year", value: (row) => row.year },
+  { header: "water_level_m", value: (row) => row.waterLevel },
+  { header: "water_level_lower_m", value: (row) => row.waterLevelRange?.[0] },
+  { header: "water_level_upper_m", value: (row) => row.waterLevelRange?.[1] },
+  // Weighted arithmetic index against BIS, so files do not depend on the viewer's settings
+  { header: "wqi", value: (row) => computeWqi(row)?.value },
+  { header: "tds_ppm", value: (row) => row.tds },
+  { header: "tds_lower_ppm", value: (row) => row.tdsRange?.[0] },
+  { header: "tds_upper_ppm", value: (row) => row.tdsRange?.[1] },
+  { header: "ec_us_cm", value: (row) => row.ec },
+  { header: "ph", value: (row) => row.ph },
+  { header: "dissolved_oxygen_mg_l", value: (row) => row.dissolvedOxygen },
+  { header: "fluoride_mg_l", value: (row) => row.fluoride },
+  { header: "nitrate_mg_l", value: (row) => row.nitrate },
+  { header: "arsenic_mg_l", value: (row) => row.arsenic },
+  { header: "iron_mg_l", value: (row) => row.iron },
+  { header: "hardness_mg_l", value: (row) => row.hardness },
+  { header: "chloride_mg_l", value: (row) => row.chloride },
+  { header: "uranium_mg_l", value: (row) => row.uranium },
+  { header: "predicted", value: (row) => Boolean(row.predicted) },
+];
+
+const monthlyColumns: CsvColumn<MonthlyRow>[] = [
+  ...locationColumns,
+  { header: "month", value: (row) => row.month },
+  { header: "water_level_m", value: (row) => row.level },
+  { header: "rainfall_mm", value: (row) => row.rainfall },
+];
+
+const seasonalColumns: CsvColumn<SeasonalRow>[] = [
+  ...locationColumns,
+  { header: "year", value: (row) => row.year },
+  { header: "pre_monsoon_m", value: (row) => row.preMonsoon },
+  { header: "post_monsoon_m", value: (row) => row.postMonsoon },
+  { header: "fluctuation_m", value: (row) => row.fluctuation },
+  { header: "monsoon_rainfall_mm", value: (row) => row.monsoonRainfall },
+  { header: "recharge_mm", value: (row) => row.rechargeMm },
+];
+
+const districtColumns: CsvColumn<DistrictAssessment>[] = [
+  { header: "district_id", value: (row) => row.id },
+  { header: "district", value: (row) => row.name },
+  { header: "state", value: (row) => row.state },
+  { header: "stage_of_extraction_pct", value: (row) => row.stageOfExtraction },
+  { header: "extractable_recharge_mcm", value: (row) => row.extractableRecharge },
+  { header: "extraction_mcm", value: (row) => row.extraction },
+  { header: "category", value: (row) => row.category },
+];
+
+// Readings in the registry units, named in the headers as the import reads them
+const sampleColumns: CsvColumn<UploadedSample>[] = [
+  { header: "location_id", value: (row) => row.locationId },
+  { header: "location", value: (row) => row.location },
+  { header: "date", value: (row) => row.date },
+  { header: "level_measure", value: (row) => row.levelMeasure },
+  { header: "water_level (m)", value: (row) => row.waterLevel },
+  ...parameterIds.map((id): CsvColumn<UploadedSample> => ({
+    header: parameters[id].unit ? `${id} (${parameters[id].unit})` : id,
+    value: (row) => row.readings[id],
+  })),
+  { header: "source_file", value: (row) => row.source },
+];
+
+/** Yearly observations of one or more locations, followed by any forecast points */
+export function yearlyCsv(series: LocationSeries[], predicted: GroundwaterDataPoint[] = []): string {
+  const rows = series.flatMap((location) => location.yearly.map((point) => ({ ...point, location })));
+  // Forecasts are only ever made for a single location
+  const forecastRows = series.length === 1 ? predicted.map((point) => ({ ...point, location: series[0] })) : [];
+  return toCsv([...rows, ...forecastRows], yearlyColumns);
+}
+
+export function monthlyCsv(series: LocationSeries): string {
+  return toCsv(series.monthly.map((point) => ({ ...point, location: series })), monthlyColumns);
+}
+
+export function seasonalCsv(series: LocationSeries, years: SeasonalYear[]): string {
+  return toCsv(years.map((year) => ({ ...year, location: series })), seasonalColumns);
+}
+
+export function districtCsv(districts: DistrictAssessment[]): string {
+  return toCsv(districts, districtColumns);
+}
+
+export function samplesCsv(samples: UploadedSample[]): string {
+  return toCsv(samples, sampleColumns);
+}
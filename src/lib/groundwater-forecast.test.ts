@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_FORECAST_HORIZON,
+  forecastGroundwater,
+  MAX_FORECAST_HORIZON,
+  resolveHorizon,
+} from "@/lib/groundwater-forecast";
+import type { LocationSeries } from "@/lib/groundwater-repository";
+
+describe("resolveHorizon", () => {
+  it.each([
+    [undefined, DEFAULT_FORECAST_HORIZON],
+    [{ years: 10 }, 10],
+    [{ untilYear: 2030 }, 6],
+    [{ years: 100 }, MAX_FORECAST_HORIZON],
+    [{ untilYear: 2020 }, 1],
+  ])("%o after 2024 is %i years", (horizon, years) => {
+    expect(resolveHorizon(horizon, 2024)).toBe(years);
+  });
+});
+
+describe("forecastGroundwater", () => {
+  it("skips a history too short to fit a trend to", () => {
+    const series: LocationSeries = {
+      locationId: "delhi",
+      name: "Delhi",
+      state: "Delhi",
+      levelMeasure: "mbgl",
+      yearly: [{ year: "2024", waterLevel: 10, tds: 200 }],
+      monthly: [{ month: "2024-12", level: 10, rainfall: 5 }],
+    };
+    expect(forecastGroundwater(series)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { forecast, MIN_FORECAST_HISTORY, type ForecastMethod } from "@/lib/forecasting";
+import type { GroundwaterDataPoint, LocationSeries } from "@/lib/groundwater-repository";
+import type { Horizon } from "@/lib/intent-parser";
+import { waterTableRise } from "@/lib/water-level";
+
+export interface ProjectedChange {
+  /** Change from the last observed year to the last forecast year */
+  value: number;
+  /** Half-width of the prediction interval in the last forecast year */
+  margin: number;
+}
+
+export interface GroundwaterForecast {
+  method: ForecastMethod;
+  horizon: number;
+  points: GroundwaterDataPoint[];
+  /** Rise of the water table; negative is a fall */
+  waterLevelChange: ProjectedChange;
+  tdsChange: ProjectedChange;
+}
+
+export const DEFAULT_FORECAST_HORIZON = 5;
+export const MAX_FORECAST_HORIZON = 30;
+
+/** Number of years to forecast past the last observed year, clamped to a sensible range */
+export function resolveHorizon(horizon: Horizon | undefined, lastObservedYear: number): number {
+  const years = !horizon
+    ? DEFAULT_FORECAST_HORIZON
+    : "years" in horizon
+      ? horizon.years
+      : horizon.untilYear - lastObservedYear;
+  return Math.max(1, Math.min(MAX_FORECAST_HORIZON, Math.round(years)));
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Forecasts the yearly series of a location. Water level is fitted on the monthly
+ * series so the monsoon cycle is modelled, then averaged back into calendar years;
+ * TDS only exists yearly and gets a trend-only fit. Null when the series is too
+ * short to fit a trend to.
+ */
+export function forecastGroundwater(
+  series: LocationSeries,
+  horizon: number = DEFAULT_FORECAST_HORIZON,
+  method: ForecastMethod = "linear-seasonal"
+): GroundwaterForecast | null {
+  if (series.yearly.length < MIN_FORECAST_HISTORY || series.monthly.length < MIN_FORECAST_HISTORY) return null;
+  const lastObserved = series.yearly[series.yearly.length - 1];
+  const lastYear = Number(lastObserved.year);
+
+  const [lastMonthYear, lastMonth] = series.monthly[series.monthly.length - 1].month.split("-").map(Number);
+  const monthsToForecast = (lastYear + horizon - lastMonthYear) * 12 + (12 - lastMonth);
+  const monthly = forecast(
+    series.monthly.map((point) => point.level),
+    { horizon: monthsToForecast, period: 12, method }
+  ).points;
+  const tds = forecast(series.yearly.map((point) => point.tds), { horizon, method }).points;
+
+  const points: GroundwaterDataPoint[] = Array.from({ length: horizon }, (_, i) => {
+    const year = lastYear + i + 1;
+    const months = monthly.filter((point) => {
+      const monthIndex = lastMonth - 1 + point.step;
+      return lastMonthYear + Math.floor(monthIndex / 12) === year;
+    });
+    const average = (key: "value" | "lower" | "upper") =>
+      round1(months.reduce((sum, point) => sum + point[key], 0) / months.length);
+
+    return {
+      year: String(year),
+      waterLevel: average("value"),
+      waterLevelRange: [average("lower"), average("upper")],
+      tds: Math.round(Math.max(0, tds[i].value)),
+      tdsRange: [Math.round(Math.max(0, tds[i].lower)), Math.round(tds[i].upper)],
+      predicted: true,
+    };
+  });
+
+  const last = points[points.length - 1];
+  return {
+    method,
+    horizon,
+    points,
+    waterLevelChange: {
+      value: round1(waterTableRise(lastObserved.waterLevel, last.waterLevel, series.levelMeasure)),
+      margin: round1((last.waterLevelRange[1] - last.waterLevelRange[0]) / 2),
+    },
+    tdsChange: {
+      value: last.tds - lastObserved.tds,
+      margin: Math.round((tds[horizon - 1].upper - tds[horizon - 1].lower) / 2),
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import type { GroundwaterDataPoint } from "@/lib/groundwater-repository";
+
+/** Measured chemistry on a yearly reading, keyed as on `GroundwaterDataPoint` */
+export type ParameterId =
+  | "tds"
+  | "ec"
+  | "ph"
+  | "dissolvedOxygen"
+  | "fluoride"
+  | "nitrate"
+  | "arsenic"
+  | "iron"
+  | "hardness"
+  | "chloride"
+  | "uranium";
+
+/** Which way a reading improves; `ideal` parameters are best close to one value */
+export type ParameterDirection = "lower" | "higher" | { ideal: number };
+
+/**
+ * Names and descriptions are in the message catalogs, as `parameter.<id>.name`
+ * and `parameter.<id>.description`.
+ */
+export interface ParameterDefinition {
+  id: ParameterId;
+  /** Axis and table label */
+  shortName: string;
+  unit: string;
+  /** Typical spread in Indian groundwater; charts and comparison scores are scaled to it */
+  range: [number, number];
+  better: ParameterDirection;
+}
+
+/** Every parameter the app models, in display order */
+export const parameters: Record<ParameterId, ParameterDefinition> = {
+  tds: {
+    id: "tds",
+    shortName: "TDS",
+    unit: "mg/L",
+    range: [0, 2500],
+    better: "lower",
+  },
+  ec: {
+    id: "ec",
+    shortName: "EC",
+    unit: "µS/cm",
+    range: [0, 4000],
+    better: "lower",
+  },
+  ph: {
+    id: "ph",
+    shortName: "pH",
+    unit: "",
+    range: [6, 9],
+    better: { ideal: 7 },
+  },
+  dissolvedOxygen: {
+    id: "dissolvedOxygen",
+    shortName: "DO",
+    unit: "mg/L",
+    range: [0, 10],
+    better: "higher",
+  },
+  fluoride: {
+    id: "fluoride",
+    shortName: "F⁻",
+    unit: "mg/L",
+    range: [0, 3],
+    better: "lower",
+  },
+  nitrate: {
+    id: "nitrate",
+    shortName: "NO₃⁻",
+    unit: "mg/L",
+    range: [0, 100],
+    better: "lower",
+  },
+  arsenic: {
+    id: "arsenic",
+    shortName: "As",
+    unit: "mg/L",
+    range: [0, 0.05],
+    better: "lower",
+  },
+  iron: {
+    id: "iron",
+    shortName: "Fe",
+    unit: "mg/L",
+    range: [0, 2],
+    better: "lower",
+  },
+  hardness: {
+    id: "hardness",
+    shortName: "Hardness",
+    unit: "mg/L",
+    range: [0, 1000],
+    better: "lower",
+  },
+  chloride: {
+    id: "chloride",
+    shortName: "Cl⁻",
+    unit: "mg/L",
+    range: [0, 1000],
+    better: "lower",
+  },
+  uranium: {
+    id: "uranium",
+    shortName: "U",
+    unit: "mg/L",
+    range: [0, 0.06],
+    better: "lower",
+  },
+};
+
+export const parameterIds = Object.keys(parameters) as ParameterId[];
+
+export const parameterValue = (point: GroundwaterDataPoint, id: ParameterId): number | undefined => point[id];
+
+/** "1.2 mg/L", "7.4" */
+export const formatParameter = (id: ParameterId, value: number | string) => {
+  const { unit } = parameters[id];
+  return unit ? `${value} ${unit}` : String(value);
+};
+
+/** Places a reading on 0–100 within the typical range, where 100 is the best case */
+export function parameterScore(id: ParameterId, value: number): number {
+  return rangeScore(value, parameters[id].range, parameters[id].better);
+}
+
+/** Places a value on 0–100 within a range, scored by which way it improves */
+export function rangeScore(value: number, [min, max]: [number, number], better: ParameterDirection): number {
+  const position = (Math.max(min, Math.min(max, value)) - min) / (max - min);
+  const score = better === "lower"
+    ? 1 - position
+    : better === "higher"
+      ? position
+      : 1 - Math.abs(value - better.ideal) / Math.max(better.ideal - min, max - better.ideal);
+  return Math.round(Math.max(0, Math.min(1, score)) * 100);
+}
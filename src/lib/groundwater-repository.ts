@@ -0,0 +1,112 @@
+import dataset from "@/data/groundwater.json";
+import type { LevelMeasure } from "@/lib/water-level";
+
+export interface GroundwaterDataPoint {
+  year: string;
+  /** Metres, read as the series' `levelMeasure` says */
+  waterLevel: number;
+  tds: number;
+  ph?: number;
+  dissolvedOxygen?: number;
+  /** Electrical conductivity in µS/cm */
+  ec?: number;
+  /** Chemistry in mg/L; hardness is total hardness as CaCO3 */
+  fluoride?: number;
+  nitrate?: number;
+  arsenic?: number;
+  iron?: number;
+  hardness?: number;
+  chloride?: number;
+  uranium?: number;
+  predicted?: boolean;
+  /** Prediction interval bounds, only set on predicted points */
+  waterLevelRange?: [number, number];
+  tdsRange?: [number, number];
+}
+
+export interface MonthlyDataPoint {
+  /** Calendar month in `YYYY-MM` form */
+  month: string;
+  level: number;
+  rainfall: number;
+}
+
+/** Principal aquifer material; decides how much water a metre of rise holds */
+export type AquiferType = "alluvium" | "basalt" | "granite" | "sandstone";
+
+export interface LocationSeries {
+  locationId: string;
+  name: string;
+  state: string;
+  aquifer?: AquiferType;
+  /** Whether levels are depths below ground or water-table elevations */
+  levelMeasure: LevelMeasure;
+  yearly: GroundwaterDataPoint[];
+  monthly: MonthlyDataPoint[];
+}
+
+export interface DataSource {
+  name: string;
+  description: string;
+  updated: string;
+}
+
+export interface GroundwaterRepository {
+  listLocations(): Promise<Array<{ id: string; name: string; state: string }>>;
+  /** Takes a gazetteer id; resolves to `null` when the repository has no data for the location */
+  getSeries(locationId: string): Promise<LocationSeries | null>;
+  getSource(): DataSource;
+}
+
+interface DatasetLocation {
+  id: string;
+  name: string;
+  state: string;
+  aquifer?: AquiferType;
+  /** Overrides the dataset's measure */
+  levelMeasure?: LevelMeasure;
+  yearly: GroundwaterDataPoint[];
+  monthly: MonthlyDataPoint[];
+}
+
+interface Dataset {
+  source: DataSource;
+  levelMeasure: LevelMeasure;
+  locations: DatasetLocation[];
+}
+
+// Repository backed by the JSON dataset bundled with the app, so charts work offline
+export class LocalGroundwaterRepository implements GroundwaterRepository {
+  private readonly locations: Map<string, DatasetLocation>;
+
+  constructor(private readonly data: Dataset = dataset as Dataset) {
+    this.locations = new Map(data.locations.map((location) => [location.id, location]));
+  }
+
+  async listLocations() {
+    return this.data.locations.map(({ id, name, state }) => ({ id, name, state }));
+  }
+
+  async getSeries(locationId: string): Promise<LocationSeries | null> {
+    const location = this.locations.get(locationId);
+    if (!location) return null;
+
+    return {
+      locationId: location.id,
+      name: location.name,
+      state: location.state,
+      aquifer: location.aquifer,
+      levelMeasure: location.levelMeasure ?? this.data.levelMeasure,
+      yearly: location.yearly,
+      monthly: location.monthly,
+    };
+  }
+
+  getSource() {
+    return this.data.source;
+  }
+}
+
+export const groundwaterRepository: GroundwaterRepository = new LocalGroundwaterRepository();
+
+export const DEFAULT_LOCATION_ID = "delhi";
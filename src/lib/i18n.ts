@@ -0,0 +1,69 @@
+import { IntlMessageFormat } from "intl-messageformat";
+import en from "@/locales/en.json";
+import hi from "@/locales/hi.json";
+import mr from "@/locales/mr.json";
+import ta from "@/locales/ta.json";
+import te from "@/locales/te.json";
+import bn from "@/locales/bn.json";
+import kn from "@/locales/kn.json";
+import gu from "@/locales/gu.json";
+
+/** UI languages; the same code picks the speech recognition and synthesis language */
+export type Locale = "en" | "hi" | "mr" | "ta" | "te" | "bn" | "kn" | "gu";
+
+/** Keys of the English catalog, which every other catalog translates */
+export type MessageId = keyof typeof en;
+
+export type MessageValues = Record<string, string | number>;
+
+export type Translate = (id: MessageId, values?: MessageValues) => string;
+
+export const locales: Locale[] = ["en", "hi", "mr", "ta", "te", "bn", "kn", "gu"];
+
+/** Each language named in its own script, for the language menu */
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+  mr: "मराठी",
+  ta: "தமிழ்",
+  te: "తెలుగు",
+  bn: "বাংলা",
+  kn: "ಕನ್ನಡ",
+  gu: "ગુજરાતી",
+};
+
+/** BCP 47 tag for speech in the language as spoken in India */
+export const speechTag = (locale: Locale) => `${locale}-IN` as const;
+
+export const isLocale = (value: unknown): value is Locale => locales.includes(value as Locale);
+
+const catalogs: Record<Locale, Partial<Record<MessageId, string>>> = { en, hi, mr, ta, te, bn, kn, gu };
+
+const translators = new Map<Locale, Translate>();
+
+/**
+ * Formats catalog messages, written in ICU syntax with {placeholders}, plurals
+ * and selects. A message missing from a catalog falls back to English.
+ */
+export function translator(locale: Locale): Translate {
+  let translate = translators.get(locale);
+  if (!translate) {
+    const formats = new Map<MessageId, IntlMessageFormat>();
+    // Latin digits, so plural counts match the numbers interpolated next to them
+    const tag = `${locale}-u-nu-latn`;
+    translate = (id, values) => {
+      let format = formats.get(id);
+      if (!format) {
+        format = new IntlMessageFormat(catalogs[locale][id] ?? en[id], tag);
+        formats.set(id, format);
+      }
+      return format.format(values) as string;
+    };
+    translators.set(locale, translate);
+  }
+  return translate;
+}
+
+/** "Delhi, Pune and Agra", or with "or" for a disjunction, in the locale's own style */
+export const formatList = (locale: Locale, items: string[], type: "conjunction" | "disjunction" = "conjunction") =>
+  new Intl.ListFormat(locale, { style: "long", type }).format(items);
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { gazetteer } from "@/lib/gazetteer";
+import { KeywordIntentParser, type Intent } from "@/lib/intent-parser";
+
+// Same extractor the chat uses, so place names are checked against the real gazetteer
+const parser = new KeywordIntentParser((text) => gazetteer.resolve(text).map((match) => match.entry.id));
+
+type Case = [utterance: string, expected: Partial<Intent>];
+
+const corpus: Record<string, Case[]> = {
+  quality: [
+    ["What is the water quality in Delhi?", { kind: "quality", locations: ["delhi"], metric: "quality" }],
+    ["दिल्ली में पानी की गुणवत्ता कैसी है?", { kind: "quality", locations: ["delhi"], metric: "quality" }],
+    ["Delhi mein paani ki gunvatta kaisi hai", { kind: "quality", locations: ["delhi"], metric: "quality" }],
+    ["Is the TDS in Jaipur safe to drink?", { kind: "quality", locations: ["jaipur"], metric: "tds" }],
+    ["Is Delhi water safe?", { kind: "quality", locations: ["delhi"] }],
+    ["Kya Delhi ka paani surakshit hai", { kind: "quality", locations: ["delhi"] }],
+    ["What is the WQI in Pune?", { kind: "quality", locations: ["pune"], metric: "quality" }],
+    ["What is the water quality near me?", { kind: "quality", locations: [], usesUserLocation: true }],
+  ],
+  comparison: [
+    ["Compare Delhi and Mumbai", { kind: "comparison", locations: ["delhi", "mumbai"] }],
+    ["दिल्ली और मुंबई की तुलना करो", { kind: "comparison", locations: ["delhi", "mumbai"] }],
+    ["Delhi aur Pune ki tulna karo", { kind: "comparison", locations: ["delhi", "pune"] }],
+  ],
+  prediction: [
+    [
+      "Forecast the water level in Delhi for the next 10 years",
+      { kind: "prediction", locations: ["delhi"], metric: "waterLevel", horizon: { years: 10 } },
+    ],
+    ["2030 तक जयपुर में जल स्तर का पूर्वानुमान", { kind: "prediction", locations: ["jaipur"], horizon: { untilYear: 2030 } }],
+    ["agle 5 saal mein Pune ka anuman batao", { kind: "prediction", locations: ["pune"], horizon: { years: 5 } }],
+    ["Predict TDS in Chennai for the next decade", { kind: "prediction", metric: "tds", horizon: { years: 10 } }],
+    ["अगले 10 साल में दिल्ली का जल स्तर", { kind: "prediction", locations: ["delhi"], horizon: { years: 10 } }],
+    ["What will TDS be in Jaipur in 2030?", { kind: "prediction", metric: "tds", horizon: { untilYear: 2030 } }],
+    ["Will the water in Mumbai be safe in 5 years?", { kind: "prediction", locations: ["mumbai"], horizon: { years: 5 } }],
+    ["Forecast Delhi for the next 100 years", { kind: "prediction", horizon: { years: 100 } }],
+  ],
+  level: [
+    ["Show water level trends in Mumbai since 2015", { kind: "level", locations: ["mumbai"], timeRange: { from: 2015 } }],
+    ["दिल्ली में 2010 से 2020 तक जल स्तर", { kind: "level", locations: ["delhi"], timeRange: { from: 2010, to: 2020 } }],
+    ["Delhi mein paani ka star kya hai", { kind: "level", locations: ["delhi"], metric: "waterLevel" }],
+    ["मेरे इलाके में जल स्तर", { kind: "level", usesUserLocation: true }],
+    ["Water level in Ludhiana", { kind: "level", locations: ["ludhiana"] }],
+    ["Water level trend over the last 10 years in Delhi", { kind: "level", horizon: undefined }],
+    ["पिछले दस साल में दिल्ली का जल स्तर", { kind: "level", horizon: undefined }],
+  ],
+  seasonal: [
+    ["Monsoon recharge in Chennai", { kind: "seasonal", locations: ["chennai"] }],
+    ["जयपुर में मानसून के बाद पुनर्भरण", { kind: "seasonal", locations: ["jaipur"] }],
+    ["Pune mein barish ke baad paani", { kind: "seasonal", locations: ["pune"] }],
+  ],
+  alert: [
+    [
+      "Alert me when TDS in Delhi goes above 500",
+      { kind: "alert", metric: "tds", alert: { action: "create", comparator: "above", threshold: 500 } },
+    ],
+    ["Show my alerts", { kind: "alert", alert: { action: "list" } }],
+    ["Delete the alert for Delhi", { kind: "alert", locations: ["delhi"], alert: { action: "delete" } }],
+    [
+      "जब दिल्ली में जल स्तर 1 मीटर गिरे तो सूचित करें",
+      { kind: "alert", metric: "waterLevel", alert: { action: "create", comparator: "below", threshold: 1 } },
+    ],
+    [
+      "Alert me when TDS in Delhi goes above 1,000",
+      { kind: "alert", metric: "tds", alert: { action: "create", comparator: "above", threshold: 1000 } },
+    ],
+    [
+      "Notify me if TDS in Jaipur exceeds 1,00,000",
+      { kind: "alert", metric: "tds", alert: { action: "create", comparator: "above", threshold: 100000 } },
+    ],
+    ["Alert me if WQI drops below 50", { kind: "alert", metric: "quality", alert: { action: "create", comparator: "below", threshold: 50 } }],
+  ],
+  stress: [
+    ["Show over-exploited districts in Punjab", { kind: "stress", stressCategory: "overExploited" }],
+    ["अर्ध-गंभीर जिले दिखाओ", { kind: "stress", stressCategory: "semiCritical" }],
+    ["Which blocks are safe in Haryana?", { kind: "stress", stressCategory: "safe" }],
+  ],
+  samples: [
+    ["Show my uploaded samples for Nashik", { kind: "samples", locations: ["nashik"] }],
+    ["नासिक के मेरे नमूने दिखाओ", { kind: "samples", locations: ["nashik"] }],
+    ["mere samples dikhao", { kind: "samples", locations: [] }],
+  ],
+  unknown: [["hello", { kind: "unknown", locations: [], score: 0 }]],
+};
+
+describe("KeywordIntentParser", () => {
+  for (const [kind, cases] of Object.entries(corpus)) {
+    describe(kind, () => {
+      it.each(cases)("%s", (utterance, expected) => {
+        expect(parser.parse(utterance)).toMatchObject(expected);
+      });
+    });
+  }
+
+  it("reads a year as a horizon, not a time range, for predictions", () => {
+    expect(parser.parse("Forecast Delhi until 2030")).toMatchObject({ horizon: { untilYear: 2030 }, timeRange: undefined });
+  });
+
+  it("reads digits in Indian scripts", () => {
+    expect(parser.parse("अगले १० साल में दिल्ली का पूर्वानुमान").horizon).toEqual({ years: 10 });
+  });
+});
@@ -0,0 +1,278 @@
+export type IntentKind = "quality" | "comparison" | "prediction" | "level" | "seasonal" | "alert" | "stress" | "samples" | "unknown";
+
+export type IntentMetric = "quality" | "tds" | "waterLevel";
+
+/** CGWB categories of groundwater stress, by stage of extraction */
+export type StressCategory = "safe" | "semiCritical" | "critical" | "overExploited";
+
+/** How far ahead to forecast, either a number of years or a target calendar year */
+export type Horizon = { years: number } | { untilYear: number };
+
+/** What the user wants done with alerts, and the condition if they gave one */
+export interface AlertRequest {
+  action: "create" | "list" | "delete";
+  comparator?: "above" | "below";
+  threshold?: number;
+}
+
+/** Inclusive range of calendar years the user asked about */
+export interface TimeRange {
+  from?: number;
+  to?: number;
+}
+
+export interface Intent {
+  kind: IntentKind;
+  /** Location ids mentioned in the utterance, in order of appearance */
+  locations: string[];
+  /** The user referred to their own position ("my area", "near me") */
+  usesUserLocation: boolean;
+  metric?: IntentMetric;
+  timeRange?: TimeRange;
+  horizon?: Horizon;
+  alert?: AlertRequest;
+  /** Stress category the user asked to see districts for */
+  stressCategory?: StressCategory;
+  /** Score of the winning intent, 0 when nothing matched */
+  score: number;
+}
+
+export interface IntentParser {
+  parse(text: string): Intent;
+}
+
+export type LocationExtractor = (text: string) => string[];
+
+interface Cue {
+  pattern: RegExp;
+  weight: number;
+}
+
+// Keyword cues per intent in every UI language, and in romanized Hindi ("paani ka
+// star"). Every intent is scored so that "compare quality in Delhi and Pune" is
+// routed by its strongest signal rather than by whichever keyword happens to be
+// checked first.
+const intentCues: Record<Exclude<IntentKind, "unknown">, Cue[]> = {
+  quality: [
+    { pattern: /\b(quality|gun[vw]atta|wqi)\b|गुणवत्ता|தரம்|தரத்|నాణ్యత|গুণমান|জলের মান|ಗುಣಮಟ್ಟ|ગુણવત્તા/, weight: 3 },
+    {
+      pattern: /\b(tds|contaminat\w*|pollut\w*|(un)?safe|drinkable|potable|pradushan|peene layak|a?surakshit)\b|प्रदूषण|सुरक्षित|பாதுகாப்பான|సురక్షిత|নিরাপদ|ಸುರಕ್ಷಿತ|સુરક્ષિત|पीने योग्य|पिण्यायोग्य|மாசு|குடிக்க|కాలుష్య|తాగ|দূষণ|পানযোগ্য|ಮಾಲಿನ್ಯ|ಕುಡಿಯ|પ્રદૂષણ|પીવાલાયક/,
+      weight: 2,
+    },
+  ],
+  comparison: [
+    { pattern: /\b(compare|comparison|versus|vs\.?|tulna)\b|तुलना|ஒப்பி|పోల్చ|పోలిక|তুলনা|ಹೋಲಿ|સરખામણી|તુલના/, weight: 3 },
+    { pattern: /\b(difference|between|better than|worse than|antar|ke beech)\b|अंतर|के बीच|இடையே|మధ్య|মধ্যে|ನಡುವ|વચ્ચે/, weight: 1 },
+  ],
+  prediction: [
+    {
+      pattern: /\b(predict\w*|forecast\w*|projection|project|bhavishyavani|(purv)?anuman)\b|भविष्यवाणी|पूर्वानुमान|अंदाज|भाकीत|கணிப்பு|முன்னறிவிப்பு|అంచనా|পূর্বাভাস|ಮುನ್ಸೂಚನೆ|આગાહી/,
+      weight: 3,
+    },
+    {
+      pattern: /\b(future|next|coming|upcoming|will be|bhavishya|agle|aane wale)\b|भविष्य|अगले|आने वाले|पुढील|அடுத்த|எதிர்கால|రాబోయే|తదుపరి|భవిష్య|আগামী|ভবিষ্য|ಮುಂದಿನ|ಭವಿಷ್ಯ|આગામી|આવતા|ભવિષ્ય/,
+      weight: 1,
+    },
+  ],
+  // Outweighs the metric cues so "alert me when TDS is above 500" is not a quality question
+  alert: [
+    {
+      pattern: /\b(alerts?|notify|notifications?|warn me|let me know when)\b|अलर्ट|अलार्ट|सूचित|सूचना|எச்சரிக்கை|హెచ్చరిక|সতর্ক|অ্যালার্ট|ಎಚ್ಚರಿಕೆ|ચેતવણી|એલર્ટ/,
+      weight: 5,
+    },
+  ],
+  // Outweighs the place and metric cues: "my uploaded samples with high TDS in Nashik"
+  samples: [
+    {
+      pattern: /\b(uploaded|imported|(my|our|mere|hamare) (own )?(samples?|lab (data|results?)|test results?|readings))\b|अपलोड|नमून[ेा]|नमुन[ेा]|பதிவேற்ற|అప్.?లోడ్|నమూనా|আপলোড|নমুনা|ಅಪ್.?ಲೋಡ್|ಮಾದರಿಗಳ|અપલોડ|નમૂન/,
+      weight: 5,
+    },
+  ],
+  stress: [
+    {
+      pattern: /\b(over-?exploited|semi-?critical|stage of (groundwater )?extraction|extraction|exploitation|stress(ed)?)\b|अति-?दोहित|अर्ध-?गंभीर|दोहन|अति-?शोषित|उपसा|அரை-?நெருக்கடி|சுரண்ட|పాక్షిక-?క్లిష్ట|అతి ?వినియోగ|আধা-?সংকট|অতি-?শোষিত|ಅರೆ-?ಗಂಭೀರ|ಅತಿ-?ಬಳಕೆ|અર્ધ-?ગંભીર|અતિ-?શોષિત/,
+      weight: 5,
+    },
+    {
+      pattern: /\b(districts?|blocks?|choropleth|category|categories|[jz]il[ea])\b|ज़िल[ेोा]|जिल[ेोा]|जिल्ह|श्रेणी|மாவட்ட|జిల్లా|জেলা|ಜಿಲ್ಲೆ|જિલ્લા/,
+      weight: 2,
+    },
+  ],
+  seasonal: [
+    {
+      pattern: /\b(seasonal|seasons?|monsoon|pre-monsoon|post-monsoon|recharge|fluctuations?|mausami|barsaat|baa?rish)\b|मानसून|मौसमी|पुनर्भरण|उतार-चढ़ाव|मान्सून|पावसाळ|பருவமழை|மீள்நிரப்ப|రుతుపవన|రీఛార్జ్|বর্ষা|মৌসুমি|পুনর্ভরণ|ಮುಂಗಾರು|ಮರುಪೂರಣ|ચોમાસ|રિચાર્જ/,
+      weight: 3,
+    },
+    {
+      pattern: /\bmonthly trends?\b|मासिक (ट्रेंड|रुझान|कल)|மாதாந்திர போக்கு|నెలవారీ ధోరణ|মাসিক প্রবণতা|ಮಾಸಿಕ ಪ್ರವೃತ್ತಿ|માસિક વલણ/,
+      weight: 3,
+    },
+  ],
+  level: [
+    { pattern: /\b(levels?|depth|water table|st(h)?ar|ga?hrai|gehrai)\b|स्तर|गहराई|पातळी|நிலை|மட்ட(ம்|ப்|த்)|మట్టం|স্তর|ಮಟ್ಟ|સ્તર/, weight: 3 },
+    {
+      pattern: /\b(trends?|historical|history|monthly)\b|ऐतिहासिक|मासिक|रुझान|ट्रेंड|கடந்த கால|வரலாற்று|மாதாந்திர|போக்கு|చారిత్రక|నెలవారీ|ధోరణ|ঐতিহাসিক|মাসিক|প্রবণতা|ಐತಿಹಾಸಿಕ|ಮಾಸಿಕ|ಪ್ರವೃತ್ತಿ|ઐતિહાસિક|માસિક|વલણ/,
+      weight: 1,
+    },
+  ],
+};
+
+// Extra weight for comparisons that actually name several places
+const MULTI_LOCATION_COMPARISON_BONUS = 2;
+
+// A horizon ahead is a forecast cue by itself: "what will TDS be in 2030", "in 5 years"
+const HORIZON_PREDICTION_BONUS = 3;
+
+// Used to break ties, most specific first
+const intentPriority: IntentKind[] = ["alert", "samples", "stress", "comparison", "prediction", "quality", "seasonal", "level"];
+
+const metricCues: Array<{ metric: IntentMetric; pattern: RegExp }> = [
+  { metric: "tds", pattern: /\b(tds|total dissolved solids|salinity)\b|टीडीएस|டிடிஎஸ்|టీడీఎస్|টিডিএস|ಟಿಡಿಎಸ್|ટીડીએસ/ },
+  { metric: "quality", pattern: /\bwqi\b|water quality index|जल गुणवत्ता सूचकांक/ },
+  { metric: "quality", pattern: /\b(quality|gun[vw]atta)\b|गुणवत्ता|தரம்|தரத்|నాణ్యత|গুণমান|জলের মান|ಗುಣಮಟ್ಟ|ગુણવત્તા/ },
+  { metric: "waterLevel", pattern: /\b(levels?|depth|water table|st(h)?ar|ga?hrai|gehrai)\b|स्तर|गहराई|पातळी|நிலை|மட்ட(ம்|ப்|த்)|మట్టం|স্তর|ಮಟ್ಟ|સ્તર/ },
+];
+
+const userLocationCue =
+  /\b(my (area|location|city|town|village|district|place|region)|near me|nearby|around me|where i live|mere (area|ilake|shehar|gaon|paas)|yahan)\b|मेरे (क्षेत्र|इलाके|शहर|गांव|गाँव|आसपास|पास)|यहाँ|यहां|माझ्या (भाग|परिसर|शहर|गाव)|इथे|என் (பகுதி|ஊர்)|இங்கே|నా (ప్రాంత|ఊరి)|ఇక్కడ|আমার (এলাকা|শহর|গ্রাম)|এখানে|ನನ್ನ (ಪ್ರದೇಶ|ಊರ)|ಇಲ್ಲಿ|મારા (વિસ્તાર|શહેર|ગામ)|અહીં/;
+
+const numberWords: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, twenty: 20, thirty: 30,
+  "एक": 1, "दो": 2, "तीन": 3, "चार": 4, "पांच": 5, "पाँच": 5, "छह": 6, "छः": 6, "सात": 7, "आठ": 8,
+  "नौ": 9, "दस": 10, "ग्यारह": 11, "बारह": 12, "पंद्रह": 15, "बीस": 20, "तीस": 30,
+  "पाच": 5, "दहा": 10, "ஐந்து": 5, "பத்து": 10, "ఐదు": 5, "పది": 10,
+  "পাঁচ": 5, "দশ": 10, "ಐದು": 5, "ಹತ್ತು": 10, "પાંચ": 5, "દસ": 10,
+  do: 2, teen: 3, chaar: 4, paanch: 5, panch: 5, das: 10, bees: 20,
+};
+
+// Devanagari, Bengali, Gujarati, Tamil, Telugu and Kannada digits; every script's zero sits at a code point ending in 6
+const toAsciiDigits = (text: string) =>
+  text.replace(/[०-९০-৯૦-૯௦-௯౦-౯೦-೯]/g, (digit) => String((digit.charCodeAt(0) - 6) % 16));
+
+const YEAR_UNIT = "(?:years?|yrs?|saal|varsh|साल|वर्ष|वर्षों|बरस|ஆண்டு|வருட|సంవత్సర|ఏళ్ల|বছর|ವರ್ಷ|વર્ષ)";
+const COUNT = `(\\d+|${Object.keys(numberWords).join("|")})`;
+
+// "until 2030" is a postposition after the year in the Indian languages
+const UNTIL = "(?:tak\\b|तक|तक़|पर्यंत|வரை|వరకు|পর্যন্ত|অবধি|ವರೆಗೆ|સુધી)";
+
+// "the last 10 years" and "10 years ago" look back, so they are no horizon
+const LOOKING_BACK_BEFORE = /(?:\b(?:last|past|previous|pichh?le)|पिछले|गत|मागील|கடந்த|గత|গত|ಕಳೆದ|છેલ્લા)\s*$/;
+const LOOKING_BACK_AFTER = /^\s*(?:\b(?:ago|back|pehle)\b|पहले|पूर्वी|முன்பு|క్రితం|আগে|ಹಿಂದೆ|પહેલાં)/;
+
+const looksBack = (text: string, match: RegExpMatchArray) =>
+  LOOKING_BACK_BEFORE.test(text.slice(0, match.index)) || LOOKING_BACK_AFTER.test(text.slice(match.index + match[0].length));
+
+const parseHorizon = (text: string): Horizon | undefined => {
+  const until = text.match(new RegExp(`\\b(?:by|until|till|through|up to|in)\\s+((?:20)\\d{2})\\b|\\b(20\\d{2})\\s*${UNTIL}`));
+  if (until) {
+    return { untilYear: Number(until[1] ?? until[2]) };
+  }
+
+  const decades = text.match(/\b(?:next|coming)?\s*(a|one|two|three)?\s*decades?\b|(?:अगले\s+)?(दो|तीन)?\s*दशक/);
+  if (decades && !looksBack(text, decades)) {
+    const count = decades[1] ?? decades[2];
+    return { years: 10 * (count && count !== "a" ? numberWords[count] : 1) };
+  }
+
+  const count = text.match(new RegExp(`(?<![\\p{L}\\p{M}\\d])${COUNT}\\s*(?:-\\s*)?${YEAR_UNIT}`, "u"));
+  if (count && !looksBack(text, count)) {
+    return { years: numberWords[count[1]] ?? Number(count[1]) };
+  }
+
+  return undefined;
+};
+
+// Thousands separators, as in "1,000" or the Indian "1,00,000", so a threshold reads whole
+const DIGIT_GROUPS = /(?<![\d.]|\d,)(\d{1,3}(,\d{3})+|\d{1,2}(,\d{2})+,\d{3})(?![\d.]|,\d)/g;
+
+const parseAlert = (text: string): AlertRequest => {
+  const action = /\b(delete|remove|cancel|clear|stop|turn off|unsubscribe)\b|हटा|बंद कर|रद्द|काढ|நீக்கு|తొలగించ|মুছে|বাতিল|ಅಳಿಸ|દૂર કર|કાઢી/.test(text)
+    ? "delete"
+    : /\b(show|list|view|see|what|which)\b|दिखा|कौन से|मेरे (अलर्ट|अलार्ट)|दाखव|காட்டு|చూపించ|দেখাও|ತೋರಿಸ|બતાવ/.test(text) &&
+        !/\b(when|if)\b|जब|अगर|जेव्हा|போது|ఉంటే|అయితే|হলে|যখন|ಆದಾಗ|ಆದರೆ|જ્યારે/.test(text)
+      ? "list"
+      : "create";
+
+  // "drops more than 1 m" is a fall, so the direction verbs win over "more than"
+  const comparator = /\b(drops?|dropping|falls?|falling|declines?|declining)\b|गिर|घट|घसर|குறைந்து|పడిపో|নেমে|ಕುಸಿ|ઘટ/.test(text)
+    ? "below"
+    : /\b(above|over|exceeds?|exceeding|more than|greater than|higher than|rises?|rising)\b|>|से (ऊपर|अधिक|ज़्यादा|ज्यादा)|बढ़|पेक्षा जास्त|மேல்|அதிகம|పైగా|మించ|বেশি|উপরে|ಮೀರ|ಹೆಚ್ಚು|થી વધુ|ઉપર/.test(text)
+      ? "above"
+      : /\b(below|under|less than|lower than)\b|<|से (नीचे|कम)|पेक्षा कमी|கீழ்|குறைவ|తక్కువ|కింద|কম|নিচে|ಕಡಿಮೆ|ಕೆಳಗೆ|થી ઓછ|નીચે/.test(text)
+        ? "below"
+        : undefined;
+
+  const threshold = text
+    .replace(DIGIT_GROUPS, (digits) => digits.replace(/,/g, ""))
+    .match(/(?<![\d.])(\d+(?:\.\d+)?)(?![\d.])/);
+  return { action, comparator, threshold: threshold ? Number(threshold[1]) : undefined };
+};
+
+// Checked most specific first: "semi-critical" also contains "critical"
+const stressCategoryCues: Array<{ category: StressCategory; pattern: RegExp }> = [
+  { category: "overExploited", pattern: /\bover-?exploited\b|अति-?दोहित|अति-?शोषित|சுரண்டப்பட்ட|అతి ?వినియోగ|অতি-?শোষিত|ಅತಿ-?ಬಳಕೆ|અતિ-?શોષિત/ },
+  { category: "semiCritical", pattern: /\bsemi-?critical\b|अर्ध-?गंभीर|அரை-?நெருக்கடி|పాక్షిక-?క్లిష్ట|আধা-?সংকট|ಅರೆ-?ಗಂಭೀರ|અર્ધ-?ગંભીર/ },
+  { category: "critical", pattern: /\bcritical\b|गंभीर|நெருக்கடி|క్లిష్ట|সংকট|ಗಂಭೀರ|ગંભીર/ },
+  { category: "safe", pattern: /\bsafe\b|सुरक्षित|பாதுகாப்பான|సురక్షిత|নিরাপদ|ಸುರಕ್ಷಿತ|સુરક્ષિત/ },
+];
+
+const parseTimeRange = (text: string): TimeRange | undefined => {
+  const between = text.match(/\b((?:19|20)\d{2})\s*(?:-|–|to|until|और|से)\s*((?:19|20)\d{2})\b/);
+  if (between) {
+    const [from, to] = [Number(between[1]), Number(between[2])].sort((a, b) => a - b);
+    return { from, to };
+  }
+
+  const since = text.match(/\b(?:since|from|after)\s+((?:19|20)\d{2})\b|\b((?:19|20)\d{2})\s*(?:se\b|से|पासून|முதல்|నుండి|থেকে|ರಿಂದ|થી)/);
+  if (since) {
+    return { from: Number(since[1] ?? since[2]) };
+  }
+
+  const until = text.match(new RegExp(`\\b(?:until|till|up to|before)\\s+((?:19|20)\\d{2})\\b|\\b((?:19|20)\\d{2})\\s*${UNTIL}`));
+  if (until) {
+    return { to: Number(until[1] ?? until[2]) };
+  }
+
+  return undefined;
+};
+
+export class KeywordIntentParser implements IntentParser {
+  constructor(private readonly extractLocations: LocationExtractor) {}
+
+  parse(text: string): Intent {
+    const normalized = toAsciiDigits(text.toLowerCase().trim());
+    const locations = this.extractLocations(normalized);
+    const horizon = parseHorizon(normalized);
+    const looksAhead = horizon !== undefined && ("years" in horizon || horizon.untilYear > new Date().getFullYear());
+
+    const scores = Object.entries(intentCues).map(([kind, cues]) => {
+      let score = cues.reduce((total, cue) => (cue.pattern.test(normalized) ? total + cue.weight : total), 0);
+      if (kind === "comparison" && score > 0 && locations.length >= 2) {
+        score += MULTI_LOCATION_COMPARISON_BONUS;
+      }
+      if (kind === "prediction" && looksAhead) {
+        score += HORIZON_PREDICTION_BONUS;
+      }
+      return { kind: kind as IntentKind, score };
+    });
+
+    const best = scores
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || intentPriority.indexOf(a.kind) - intentPriority.indexOf(b.kind))[0];
+
+    const kind = best?.kind ?? "unknown";
+
+    return {
+      kind,
+      locations,
+      usesUserLocation: userLocationCue.test(normalized),
+      metric: metricCues.find((cue) => cue.pattern.test(normalized))?.metric,
+      timeRange: kind === "prediction" ? undefined : parseTimeRange(normalized),
+      horizon: kind === "prediction" ? horizon : undefined,
+      alert: kind === "alert" ? parseAlert(normalized) : undefined,
+      stressCategory: kind === "stress" ? stressCategoryCues.find((cue) => cue.pattern.test(normalized))?.category : undefined,
+      score: best?.score ?? 0,
+    };
+  }
+}
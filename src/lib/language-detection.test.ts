@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { detectLanguage } from "@/lib/language-detection";
+
+describe("detectLanguage", () => {
+  it.each([
+    ["What is the water quality in Delhi?", "en"],
+    ["a mere 5 m drop in Delhi", "en"],
+    ["How do I check, and what do the levels look like in Delhi?", "en"],
+    ["Jal Shakti report for Delhi", "en"],
+    ["Delhi mein paani ki gunvatta kaisi hai", "hi"],
+    ["mere samples dikhao", "hi"],
+    ["दिल्ली में पानी की गुणवत्ता कैसी है?", "hi"],
+    ["पुण्यात पाण्याची पातळी काय आहे?", "mr"],
+    ["சென்னையில் நீர் தரம்", "ta"],
+    ["Delhi", "gu"],
+  ])("%s is %s", (text, locale) => {
+    expect(detectLanguage(text, "gu")).toBe(locale);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Locale } from "@/lib/i18n";
+
+type Script = "latin" | "devanagari" | "bengali" | "gujarati" | "tamil" | "telugu" | "kannada";
+
+// Unicode blocks of the scripts the UI languages are written in
+const scriptRanges: Array<{ script: Script; pattern: RegExp }> = [
+  { script: "latin", pattern: /[a-z]/gi },
+  { script: "devanagari", pattern: /[ऀ-ॿ]/g },
+  { script: "bengali", pattern: /[ঀ-৿]/g },
+  { script: "gujarati", pattern: /[઀-૿]/g },
+  { script: "tamil", pattern: /[஀-௿]/g },
+  { script: "telugu", pattern: /[ఀ-౿]/g },
+  { script: "kannada", pattern: /[ಀ-೿]/g },
+];
+
+const scriptLocales: Record<Exclude<Script, "latin" | "devanagari">, Locale> = {
+  bengali: "bn",
+  gujarati: "gu",
+  tamil: "ta",
+  telugu: "te",
+  kannada: "kn",
+};
+
+// Hindi and Marathi share Devanagari, so tell them apart by their grammatical words.
+// ळ is practically unused in Hindi.
+const marathiCues = /ळ|आहे|आहेत|च्या|मध्ये|काय|कसा|कसे|माझ्या|दाखवा|पुढील|आणि|पर्यंत|पासून/g;
+const hindiCues = /(?<![\p{L}\p{M}])(है|हैं|में|का|की|के|क्या|कैसा|कैसे|मेरे|दिखाओ|दिखाइए|बताओ|बताइए|और|तक|से)(?![\p{L}\p{M}])/gu;
+
+// Romanized Hindi ("Hinglish"). Words that are also English, common in English names
+// such as "Jal Shakti", or too short to be telling only count half, so "star" alone
+// does not turn an English question Hindi. Number words such as "do" and "das" read
+// as English too often to count at all.
+const hinglishWords = new Set([
+  "paani", "pani", "kya", "kaisa", "kaisi", "kaise", "kitna", "kitni", "batao", "bataiye", "dikhao", "dikhaiye",
+  "hai", "hain", "mera", "meri", "yahan", "yaha", "agle", "saal", "tulna", "gunvatta", "gunwatta", "bhavishya",
+  "anuman", "gehrai", "gahrai", "barish", "baarish", "ilaka", "ilake", "shehar", "sheher", "aur", "nahi", "kab", "kyun",
+]);
+const weakHinglishWords = new Set(["ka", "ki", "ke", "se", "tak", "mein", "mere", "star", "sthar", "jal"]);
+
+// Latin text shorter than this, such as a lone place name, says nothing about the language
+const MIN_LATIN_WORDS = 2;
+
+const countMatches = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+const latinWords = (text: string): string[] => text.toLowerCase().match(/[a-z]+/g) ?? [];
+
+/** The script most of the letters are written in, or undefined when the text has no letters */
+function detectScript(text: string): Script | undefined {
+  const counts = scriptRanges
+    .map(({ script, pattern }) => ({ script, count: countMatches(text, pattern) }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count);
+  return counts[0]?.script;
+}
+
+const isHinglish = (text: string) => {
+  const score = latinWords(text).reduce(
+    (total, word) => total + (hinglishWords.has(word) ? 1 : weakHinglishWords.has(word) ? 0.5 : 0),
+    0,
+  );
+  return score >= 1;
+};
+
+/**
+ * The UI language a query is written in, judged by its script and, within a script
+ * shared by several languages, by telltale words. Romanized Hindi counts as Hindi.
+ * When the text cannot tell the languages apart, the current language wins if it
+ * is one of the candidates.
+ */
+export function detectLanguage(text: string, current: Locale): Locale {
+  const script = detectScript(text);
+  switch (script) {
+    case undefined:
+      return current;
+
+    case "devanagari": {
+      const marathi = countMatches(text, marathiCues);
+      const hindi = countMatches(text, hindiCues);
+      if (marathi !== hindi) return marathi > hindi ? "mr" : "hi";
+      return current === "mr" ? "mr" : "hi";
+    }
+
+    case "latin": {
+      if (isHinglish(text)) return "hi";
+      return latinWords(text).length >= MIN_LATIN_WORDS ? "en" : current;
+    }
+
+    default:
+      return scriptLocales[script];
+  }
+}
@@ -0,0 +1,94 @@
+import type { StyleSpecification } from "maplibre-gl";
+import outline from "@/data/india-outline.json";
+import type { Coordinates } from "@/lib/geo";
+import type { LocationSeries } from "@/lib/groundwater-repository";
+import { analyseSeasons } from "@/lib/seasonal-analysis";
+import { computeWqi, wqiCategoryStatus, type WqiMethod } from "@/lib/water-quality-index";
+import type { ComplianceStatus, WaterStandard } from "@/lib/water-standards";
+
+/** What the marker colours show */
+export type MapColorMode = "level" | "quality";
+
+export interface MapMarker extends Coordinates {
+  locationId: string;
+  name: string;
+  /** Null when the location lacks the data for the chosen mode */
+  status: ComplianceStatus | null;
+  /** Rise (+) or fall of the water table against the decadal pre-monsoon mean in metres, or the WQI, depending on the mode */
+  value: number | null;
+}
+
+/** A pre-monsoon level this far below the decadal mean counts as a steep decline, as in CGWB fluctuation maps */
+const STEEP_DECLINE_M = 2;
+
+/**
+ * Latest pre-monsoon level against the decadal mean: at or above it is
+ * acceptable, a fall of up to 2 m borderline, a deeper fall unsafe.
+ */
+export function levelStatus(series: LocationSeries): { status: ComplianceStatus; change: number } | null {
+  const decadal = analyseSeasons(series)?.decadal;
+  if (!decadal) return null;
+  const change = decadal.preMonsoonChange;
+  const status = change >= 0 ? "acceptable" : change > -STEEP_DECLINE_M ? "permissible" : "unsafe";
+  return { status, change };
+}
+
+export function buildMarkers(
+  locations: Array<LocationSeries & Coordinates>,
+  mode: MapColorMode,
+  method: WqiMethod,
+  standard: WaterStandard
+): MapMarker[] {
+  return locations.map((location) => {
+    const base = { locationId: location.locationId, name: location.name, latitude: location.latitude, longitude: location.longitude };
+    if (mode === "level") {
+      const level = levelStatus(location);
+      return { ...base, status: level?.status ?? null, value: level?.change ?? null };
+    }
+    const latest = location.yearly[location.yearly.length - 1];
+    const wqi = latest && computeWqi(latest, method, standard);
+    return { ...base, status: wqi ? wqiCategoryStatus[wqi.category] : null, value: wqi?.value ?? null };
+  });
+}
+
+/** South-west and north-east corners the tile map opens on */
+export const INDIA_BOUNDS: [[number, number], [number, number]] = [[68, 6.5], [97.5, 37]];
+
+/**
+ * Map style from the environment: a MapLibre style URL (vector tiles), or an XYZ
+ * raster template. The default expects tiles served by the app itself, so the
+ * map keeps working on a local network without internet access.
+ */
+export function mapStyle(): string | StyleSpecification {
+  if (import.meta.env.VITE_MAP_STYLE_URL) return import.meta.env.VITE_MAP_STYLE_URL;
+  return {
+    version: 8,
+    sources: {
+      tiles: {
+        type: "raster",
+        tiles: [import.meta.env.VITE_MAP_TILE_URL ?? "/tiles/{z}/{x}/{y}.png"],
+        tileSize: 256,
+        attribution: import.meta.env.VITE_MAP_ATTRIBUTION ?? "© OpenStreetMap contributors",
+      },
+    },
+    layers: [{ id: "tiles", type: "raster", source: "tiles" }],
+  };
+}
+
+// Equirectangular projection scaled for India's mid-latitude, in SVG user units
+const OUTLINE_WEST = 67;
+const OUTLINE_NORTH = 37.5;
+const SVG_SCALE = 10;
+const LONGITUDE_SCALE = Math.cos((22 * Math.PI) / 180);
+
+export const projectToSvg = ({ latitude, longitude }: Coordinates): [number, number] => [
+  Math.round((longitude - OUTLINE_WEST) * LONGITUDE_SCALE * SVG_SCALE * 10) / 10,
+  Math.round((OUTLINE_NORTH - latitude) * SVG_SCALE * 10) / 10,
+];
+
+/** SVG path of the simplified India outline, used when no map tiles can be loaded */
+export const indiaOutlinePath = (outline.geometry.coordinates[0] as number[][])
+  .map(([longitude, latitude], index) => `${index === 0 ? "M" : "L"}${projectToSvg({ latitude, longitude }).join(",")}`)
+  .join(" ") + " Z";
+
+export const OUTLINE_VIEWBOX = `0 0 ${Math.ceil(32 * LONGITUDE_SCALE * SVG_SCALE)} ${31 * SVG_SCALE}`;
@@ -0,0 +1,20 @@
+export const isNotificationSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+/** Asks once; browsers ignore repeat prompts after the user has answered */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!isNotificationSupported()) return "denied";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/** Shows a system notification when the user has allowed them; returns whether it was shown */
+export function showNotification(title: string, options: NotificationOptions = {}): boolean {
+  if (!isNotificationSupported() || Notification.permission !== "granted") return false;
+  try {
+    new Notification(title, { icon: "/favicon.ico", ...options });
+    return true;
+  } catch {
+    // Android Chrome only allows notifications from a service worker
+    return false;
+  }
+}
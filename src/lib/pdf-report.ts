@@ -0,0 +1,208 @@
+import type { jsPDF } from "jspdf";
+import { svgToPng } from "@/lib/export";
+import type { DataSource } from "@/lib/groundwater-repository";
+
+export interface ReportChart {
+  title: string;
+  /** Standalone SVG from `chartToSvg` */
+  svg: string;
+}
+
+export interface ReportMessage {
+  author: string;
+  time: string;
+  text: string;
+  charts: ReportChart[];
+}
+
+export interface ReportLocation {
+  name: string;
+  /** One line of details: state, district, coordinates, years covered */
+  details: string;
+}
+
+export interface ReportContent {
+  title: string;
+  subtitle: string;
+  /** Section headings, already translated */
+  headings: { conversation: string; locations: string; source: string };
+  messages: ReportMessage[];
+  locations: ReportLocation[];
+  source: DataSource;
+  sourceUpdatedLabel: string;
+}
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Canvas pixels per PDF point; 3 keeps text crisp when printed
+const TEXT_SCALE = 3;
+// One Noto family per script of the UI languages; Nirmala UI covers all of them on Windows
+const FONT_FAMILY = [
+  '"Noto Sans Devanagari"',
+  '"Noto Sans Bengali"',
+  '"Noto Sans Gujarati"',
+  '"Noto Sans Tamil"',
+  '"Noto Sans Telugu"',
+  '"Noto Sans Kannada"',
+  '"Nirmala UI"',
+  "Mangal",
+  "system-ui",
+  "sans-serif",
+].join(", ");
+
+const COLORS = { text: "#1f2937", muted: "#6b7280", accent: "#0e7490", rule: "#d1d5db" };
+
+interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  /** Space after the block, in points */
+  gap?: number;
+}
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Lays the report out top to bottom, breaking pages as needed. The built-in PDF
+ * fonts cannot shape Indic scripts, so text is drawn by the browser onto a canvas and
+ * placed as images; the report therefore reads correctly in every UI language with no font files.
+ */
+class ReportWriter {
+  private y = MARGIN;
+  private readonly measure = document.createElement("canvas").getContext("2d");
+
+  constructor(private readonly doc: jsPDF) {}
+
+  text(text: string, { size = 10, bold = false, color = COLORS.text, gap = 4 }: TextStyle = {}) {
+    const font = `${bold ? "600 " : ""}${size}px ${FONT_FAMILY}`;
+    const lineHeight = size * 1.45;
+    this.measure.font = font;
+
+    for (const line of this.wrap(text)) {
+      this.ensureSpace(lineHeight);
+      if (line) {
+        const width = Math.min(CONTENT_WIDTH, Math.ceil(this.measure.measureText(line).width) + 1);
+        this.doc.addImage(this.renderLine(line, font, color, width, lineHeight), "PNG", MARGIN, this.y, width, lineHeight);
+      }
+      this.y += lineHeight;
+    }
+    this.y += gap;
+  }
+
+  async chart({ title, svg }: ReportChart) {
+    const png = await svgToPng(svg);
+    const bitmap = await createImageBitmap(png);
+    const height = (bitmap.height / bitmap.width) * CONTENT_WIDTH;
+    bitmap.close();
+
+    this.ensureSpace(height + 20);
+    this.text(title, { size: 9, bold: true, color: COLORS.muted, gap: 2 });
+    this.doc.addImage(await blobToDataUrl(png), "PNG", MARGIN, this.y, CONTENT_WIDTH, height);
+    this.y += height + 10;
+  }
+
+  rule(gap = 10) {
+    this.ensureSpace(gap * 2);
+    this.y += gap;
+    this.doc.setDrawColor(COLORS.rule);
+    this.doc.line(MARGIN, this.y, PAGE_WIDTH - MARGIN, this.y);
+    this.y += gap;
+  }
+
+  /** Page numbers go on last, once the page count is known */
+  numberPages() {
+    const pages = this.doc.getNumberOfPages();
+    this.doc.setFontSize(8);
+    this.doc.setTextColor(COLORS.muted);
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.text(`${page} / ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2, { align: "right" });
+    }
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  // Greedy word wrap using the font currently set on the measuring context
+  private wrap(text: string): string[] {
+    return text.split("\n").flatMap((paragraph) => {
+      const lines: string[] = [];
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.measure.measureText(candidate).width > CONTENT_WIDTH) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      return [...lines, line];
+    });
+  }
+
+  private renderLine(line: string, font: string, color: string, width: number, height: number): string {
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * TEXT_SCALE);
+    canvas.height = Math.ceil(height * TEXT_SCALE);
+    const context = canvas.getContext("2d");
+    context.scale(TEXT_SCALE, TEXT_SCALE);
+    context.font = font;
+    context.fillStyle = color;
+    context.textBaseline = "middle";
+    context.fillText(line, 0, height / 2);
+    return canvas.toDataURL("image/png");
+  }
+}
+
+/** Builds the PDF entirely in the browser; jsPDF is loaded on first use */
+export async function buildPdfReport(content: ReportContent): Promise<Blob> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4", compress: true });
+  const writer = new ReportWriter(doc);
+
+  writer.text(content.title, { size: 18, bold: true, color: COLORS.accent, gap: 2 });
+  writer.text(content.subtitle, { size: 9, color: COLORS.muted });
+  writer.rule();
+
+  writer.text(content.headings.conversation, { size: 13, bold: true, gap: 8 });
+  for (const message of content.messages) {
+    writer.text(`${message.author} · ${message.time}`, { size: 8, bold: true, color: COLORS.muted, gap: 1 });
+    writer.text(message.text, { gap: 6 });
+    for (const chart of message.charts) {
+      await writer.chart(chart);
+    }
+  }
+
+  if (content.locations.length > 0) {
+    writer.rule();
+    writer.text(content.headings.locations, { size: 13, bold: true, gap: 8 });
+    for (const location of content.locations) {
+      writer.text(location.name, { bold: true, gap: 0 });
+      writer.text(location.details, { size: 9, color: COLORS.muted, gap: 6 });
+    }
+  }
+
+  writer.rule();
+  writer.text(content.headings.source, { size: 13, bold: true, gap: 8 });
+  writer.text(content.source.name, { bold: true, gap: 0 });
+  writer.text(content.source.description, { size: 9, gap: 2 });
+  writer.text(`${content.sourceUpdatedLabel}: ${content.source.updated}`, { size: 9, color: COLORS.muted });
+
+  writer.numberPages();
+  return doc.output("blob");
+}
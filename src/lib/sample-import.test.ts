@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { validateSheet } from "@/lib/sample-import";
+
+const importRow = (header: string, value: string) => {
+  const { rows } = validateSheet([["Location", "Date", header], ["Nashik", "2023-03-12", value]], "lab.csv");
+  return rows[0];
+};
+
+describe("validateSheet", () => {
+  it.each([
+    ["1,250", 1250],
+    ["12,50,000", 1250000],
+    ["1,250,000", 1250000],
+    ["850.5", 850.5],
+  ])("reads %s as %d", (text, value) => {
+    expect(importRow("TDS (mg/L)", text).sample.readings.tds).toBe(value);
+  });
+
+  it("rejects a decimal comma rather than misreading it", () => {
+    expect(importRow("Fluoride (mg/L)", "1,25").issues).toContainEqual(expect.objectContaining({ kind: "notANumber" }));
+  });
+
+  it("accepts real water-table elevations", () => {
+    const row = importRow("Water table (m amsl)", "565.4");
+    expect(row.sample).toMatchObject({ waterLevel: 565.4, levelMeasure: "mamsl" });
+    expect(row.issues).toEqual([]);
+  });
+
+  it("rejects elevations no aquifer reaches", () => {
+    expect(importRow("Water table (m amsl)", "12000").issues).toContainEqual(expect.objectContaining({ kind: "outOfRange" }));
+  });
+
+  it("flags depths far beyond observation wells", () => {
+    expect(importRow("Depth to water (m bgl)", "900").issues).toContainEqual(
+      expect.objectContaining({ kind: "unusual", severity: "warning" })
+    );
+  });
+});
@@ -0,0 +1,373 @@
+import { gazetteer } from "@/lib/gazetteer";
+import { parameterIds, parameters, type ParameterId } from "@/lib/groundwater-parameters";
+import type { SampleInput } from "@/lib/uploaded-samples";
+import { levelMeasures, type LevelMeasure } from "@/lib/water-level";
+
+/** What a column of the file holds: place, date, water level or a registry parameter */
+export type ImportField = "location" | "district" | "date" | "waterLevel" | ParameterId;
+
+export type SheetCell = string | number | boolean | Date | null;
+
+/**
+ * Problems are reported as message ids under `import.issue.`, so the preview can
+ * show them in any language. Errors keep a row out of the import; warnings do not.
+ */
+export type ImportIssueKind =
+  | "unknownUnit"
+  | "duplicateColumn"
+  | "missingLocation"
+  | "missingDate"
+  | "invalidDate"
+  | "notANumber"
+  | "negative"
+  | "outOfRange"
+  | "unusual"
+  | "belowDetection"
+  | "unknownPlace"
+  | "noReadings";
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  severity: "error" | "warning";
+  field?: ImportField;
+  /** The offending cell or unit, as written */
+  value?: string;
+}
+
+export interface ImportColumn {
+  header: string;
+  /** Unset when the header is not recognised, or the column cannot be used */
+  field?: ImportField;
+  /** Unit given in the header, if any */
+  unit?: string;
+  /** Multiplier from the file's unit to the registry's */
+  factor: number;
+  /** Only on the water level column */
+  levelMeasure?: LevelMeasure;
+  issue?: ImportIssue;
+}
+
+export interface ImportRow {
+  /** Row number as spreadsheet programs show it */
+  line: number;
+  sample: SampleInput;
+  issues: ImportIssue[];
+}
+
+export interface SampleImport {
+  columns: ImportColumn[];
+  rows: ImportRow[];
+  /** Required fields no column provides; nothing can be imported until the file has them */
+  missing: ImportField[];
+}
+
+const REQUIRED_FIELDS: ImportField[] = ["location", "date"];
+
+// Header spellings seen in CGWB, state board and NGO sheets, compared after normalising.
+// Registry ids and short names ("NO₃⁻" → "no3") are added below.
+const fieldAliases: Record<ImportField, string[]> = {
+  location: ["location", "location name", "site", "site name", "place", "village", "town", "city", "station", "well", "well name"],
+  district: ["district", "district name"],
+  date: ["date", "sampling date", "sample date", "date of sampling", "collection date", "date of collection", "sampled on"],
+  waterLevel: [
+    "depth", "depth to water", "depth to water level", "dtw", "swl", "static water level", "water level",
+    "groundwater level", "water table", "water table elevation", "groundwater elevation", "level",
+  ],
+  tds: ["total dissolved solids"],
+  ec: ["conductivity", "electrical conductivity", "specific conductance"],
+  ph: ["ph value"],
+  dissolvedOxygen: ["dissolved oxygen"],
+  fluoride: ["fluoride", "f"],
+  nitrate: ["nitrate", "no3"],
+  arsenic: ["arsenic"],
+  iron: ["iron", "total iron"],
+  hardness: ["hardness", "total hardness", "th"],
+  chloride: ["chloride", "cl"],
+  uranium: ["uranium"],
+};
+
+// Factors to the registry unit of each kind of reading. In dilute water 1 mg/L is
+// 1 ppm, and µg/L is ppb.
+const unitFactors: Record<string, Record<string, number>> = {
+  "mg/L": { "mg/l": 1, ppm: 1, "ug/l": 0.001, ppb: 0.001, "g/l": 1000 },
+  "µS/cm": { "us/cm": 1, "ms/cm": 1000, "ds/m": 1000 },
+  "": { unit: 1, units: 1, "ph units": 1 },
+  m: { m: 1, mbgl: 1, "m bgl": 1, mamsl: 1, "m amsl": 1, ft: 0.3048, feet: 0.3048, "ft bgl": 0.3048 },
+};
+
+// Readings this many times the top of the typical range are more likely a unit mix-up
+const UNUSUAL_FACTOR = 10;
+
+// Cells meaning "not measured", or not detected without a detection limit
+const BLANK = /^(-+|—|na|n\/a|nil|none|not tested|nd|bdl)$/i;
+
+// Lab sheets report readings under the detection limit as "<0.01"
+const BELOW_DETECTION = /^(<|less than)\s*/i;
+
+// Thousands separators, as in "1,250,000" or the Indian "12,50,000"; "1,25" stays a decimal comma and is rejected
+const DIGIT_GROUPS = /^-?(\d{1,3}(,\d{3})+|\d{1,2}(,\d{2})+,\d{3})(\.\d+)?$/;
+
+// Higher than any aquifer in India, Ladakh included
+const MAX_WATER_TABLE_ELEVATION = 6000;
+
+const normalizeHeader = (text: string) =>
+  text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+const headerFields = new Map<string, ImportField>();
+(Object.entries(fieldAliases) as Array<[ImportField, string[]]>).forEach(([field, aliases]) =>
+  aliases.forEach((alias) => headerFields.set(normalizeHeader(alias), field))
+);
+parameterIds.forEach((id) => {
+  headerFields.set(normalizeHeader(id), id);
+  headerFields.set(normalizeHeader(parameters[id].shortName), id);
+});
+
+// "Fluoride (ppm)", "Hardness [mg/L as CaCO3]", "Depth to water (m bgl)"
+const splitUnit = (header: string): { name: string; unit?: string } => {
+  const match = header.match(/^(.*?)\s*[([]\s*(.*?)\s*[)\]]\s*$/);
+  return match ? { name: match[1], unit: match[2] } : { name: header };
+};
+
+const normalizeUnit = (unit: string) =>
+  unit
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s*as\s+caco3$/, "")
+    // Micro sign or Greek mu, as keyboards differ
+    .replace(/[\u00b5\u03bc]/g, "u")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const fieldUnit = (field: ImportField) =>
+  field === "waterLevel" ? "m" : field in parameters ? parameters[field as ParameterId].unit : undefined;
+
+function mapColumn(header: string, taken: Set<ImportField>): ImportColumn {
+  const { name, unit } = splitUnit(header.trim());
+  const field = headerFields.get(normalizeHeader(name)) ?? headerFields.get(normalizeHeader(header));
+  if (!field) return { header, factor: 1 };
+  if (taken.has(field)) {
+    return { header, factor: 1, issue: { kind: "duplicateColumn", severity: "warning", field } };
+  }
+
+  const registryUnit = fieldUnit(field);
+  let factor = 1;
+  if (registryUnit !== undefined && unit) {
+    const known = normalizeUnit(unit) === normalizeUnit(registryUnit) ? 1 : unitFactors[registryUnit][normalizeUnit(unit)];
+    if (known === undefined) {
+      return { header, unit, factor: 1, issue: { kind: "unknownUnit", severity: "warning", field, value: unit } };
+    }
+    factor = known;
+  }
+  taken.add(field);
+  return {
+    header,
+    field,
+    unit,
+    factor,
+    levelMeasure: field === "waterLevel" ? (/amsl|elevation/i.test(header) ? "mamsl" : "mbgl") : undefined,
+  };
+}
+
+/** Matches each header to a field, with the unit it is written in */
+export function mapColumns(header: SheetCell[]): ImportColumn[] {
+  const taken = new Set<ImportField>();
+  return header.map((cell) => mapColumn(cell === null ? "" : String(cell), taken));
+}
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDate = (year: number, month: number, day: number): string | undefined => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined;
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * `YYYY-MM-DD`, or day-first dates as written in India ("05/03/2024" is 5 March).
+ * Spreadsheet dates arrive as Date objects, or as day serials when the cell was
+ * not formatted as a date.
+ */
+export function parseSampleDate(cell: SheetCell, today = new Date()): string | undefined {
+  let date: string | undefined;
+  if (cell instanceof Date) {
+    date = Number.isNaN(cell.getTime()) ? undefined : cell.toISOString().slice(0, 10);
+  } else if (typeof cell === "number") {
+    // Serials before 1950 are more likely a stray number than a date
+    date = cell > 18264 ? new Date(EXCEL_EPOCH + Math.floor(cell) * DAY_MS).toISOString().slice(0, 10) : undefined;
+  } else if (typeof cell === "string") {
+    const text = cell.trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    if (iso) date = isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+    else if (dayFirst) {
+      const year = Number(dayFirst[3]) + (dayFirst[3].length === 2 ? 2000 : 0);
+      date = isoDate(year, Number(dayFirst[2]), Number(dayFirst[1]));
+    }
+  }
+  // A sample cannot be taken in the future
+  return date && date <= today.toISOString().slice(0, 10) ? date : undefined;
+}
+
+const cellText = (cell: SheetCell) => (cell instanceof Date ? cell.toISOString().slice(0, 10) : cell === null ? "" : String(cell).trim());
+
+type ParsedNumber = { value: number; belowDetection: boolean } | "blank" | "invalid";
+
+const parseNumber = (cell: SheetCell): ParsedNumber => {
+  if (typeof cell === "number") return Number.isFinite(cell) ? { value: cell, belowDetection: false } : "invalid";
+  const text = cellText(cell);
+  if (!text || BLANK.test(text)) return "blank";
+  const belowDetection = BELOW_DETECTION.test(text);
+  const digits = text.replace(BELOW_DETECTION, "");
+  const number = Number(DIGIT_GROUPS.test(digits) ? digits.replace(/,/g, "") : digits);
+  return Number.isFinite(number) ? { value: number, belowDetection } : "invalid";
+};
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/** Checks one reading against what the field can physically be; returns the issues found */
+function checkRange(field: "waterLevel" | ParameterId, value: number, measure?: LevelMeasure): ImportIssue[] {
+  const shown = String(value);
+  if (field === "ph") {
+    return value < 0 || value > 14 ? [{ kind: "outOfRange", severity: "error", field, value: shown }] : [];
+  }
+  // Elevations follow the terrain, and coastal aquifers pumped below sea level are negative
+  if (field === "waterLevel" && measure === "mamsl") {
+    return value > MAX_WATER_TABLE_ELEVATION ? [{ kind: "outOfRange", severity: "error", field, value: shown }] : [];
+  }
+  if (value < 0) {
+    return [{ kind: "negative", severity: "error", field, value: shown }];
+  }
+  const range = field === "waterLevel" ? levelMeasures[measure ?? "mbgl"].range : parameters[field].range;
+  return value > range[1] * UNUSUAL_FACTOR ? [{ kind: "unusual", severity: "warning", field, value: shown }] : [];
+}
+
+function validateRow(cells: SheetCell[], columns: ImportColumn[], line: number, source: string): ImportRow {
+  const issues: ImportIssue[] = [];
+  const cellOf = (field: ImportField) => {
+    const index = columns.findIndex((column) => column.field === field);
+    return index === -1 ? null : cells[index] ?? null;
+  };
+
+  const location = cellText(cellOf("location"));
+  const district = cellText(cellOf("district"));
+  if (!location) issues.push({ kind: "missingLocation", severity: "error", field: "location" });
+  // Villages outside the gazetteer are still found through their district
+  const place = gazetteer.resolve(location)[0] ?? (district ? gazetteer.resolve(district)[0] : undefined);
+  if (location && !place) issues.push({ kind: "unknownPlace", severity: "warning", field: "location", value: location });
+
+  const dateCell = cellOf("date");
+  const date = parseSampleDate(dateCell);
+  if (!cellText(dateCell)) issues.push({ kind: "missingDate", severity: "error", field: "date" });
+  else if (!date) issues.push({ kind: "invalidDate", severity: "error", field: "date", value: cellText(dateCell) });
+
+  const sample: SampleInput = {
+    location: [location, district].filter(Boolean).join(", "),
+    locationId: place?.entry.id,
+    date: date ?? "",
+    readings: {},
+    source,
+  };
+
+  columns.forEach((column, index) => {
+    const { field } = column;
+    if (field !== "waterLevel" && !(field in parameters)) return;
+    const parsed = parseNumber(cells[index] ?? null);
+    if (parsed === "blank") return;
+    if (parsed === "invalid") {
+      issues.push({ kind: "notANumber", severity: "error", field, value: cellText(cells[index]) });
+      return;
+    }
+
+    const value = round(parsed.value * column.factor);
+    const problems = checkRange(field as "waterLevel" | ParameterId, value, column.levelMeasure);
+    issues.push(...problems);
+    if (parsed.belowDetection) issues.push({ kind: "belowDetection", severity: "warning", field, value: String(value) });
+    if (problems.some((problem) => problem.severity === "error")) return;
+
+    if (field === "waterLevel") {
+      sample.waterLevel = value;
+      sample.levelMeasure = column.levelMeasure;
+    } else {
+      sample.readings[field as ParameterId] = value;
+    }
+  });
+
+  const hasReadings = sample.waterLevel !== undefined || Object.keys(sample.readings).length > 0;
+  if (!hasReadings && !issues.some((issue) => issue.severity === "error")) {
+    issues.push({ kind: "noReadings", severity: "error" });
+  }
+  return { line, sample, issues };
+}
+
+export const isImportable = (row: ImportRow) => !row.issues.some((issue) => issue.severity === "error");
+
+/** Maps and validates a sheet whose first non-empty row holds the column headers */
+export function validateSheet(sheet: SheetCell[][], source: string): SampleImport {
+  const lines = sheet
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .filter(({ cells }) => cells.some((cell) => cellText(cell) !== ""));
+  if (lines.length === 0) return { columns: [], rows: [], missing: REQUIRED_FIELDS };
+
+  const columns = mapColumns(lines[0].cells);
+  const missing = REQUIRED_FIELDS.filter((field) => !columns.some((column) => column.field === field));
+  const rows = missing.length > 0 ? [] : lines.slice(1).map(({ cells, line }) => validateRow(cells, columns, line, source));
+  return { columns, rows, missing };
+}
+
+/** RFC 4180 rows; the delimiter is whichever of comma, semicolon or tab the header uses most */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.slice(0, content.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].sort((a, b) => firstLine.split(b).length - firstLine.split(a).length)[0];
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) rows.push([...row, field]);
+  return rows;
+}
+
+/** First sheet of a CSV or Excel (.xlsx) file; older .xls files are rejected */
+export async function readSpreadsheet(file: File): Promise<SheetCell[][]> {
+  if (/\.(csv|tsv|txt)$/i.test(file.name) || file.type === "text/csv") {
+    return parseCsv(await file.text());
+  }
+  const { readSheet } = await import("read-excel-file/browser");
+  // The typings declare date cells as the Date constructor rather than an instance
+  return (await readSheet(file)) as unknown as SheetCell[][];
+}
+
+export async function parseSampleFile(file: File): Promise<SampleImport> {
+  return validateSheet(await readSpreadsheet(file), file.name);
+}
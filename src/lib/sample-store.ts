@@ -0,0 +1,28 @@
+import { putAll, run } from "@/lib/database";
+import { sameSample, type SampleInput, type UploadedSample } from "@/lib/uploaded-samples";
+
+type StoredSample = Omit<UploadedSample, "importedAt"> & { importedAt: string };
+
+const revive = (stored: StoredSample): UploadedSample => ({ ...stored, importedAt: new Date(stored.importedAt) });
+
+/** Oldest sampling date first */
+export async function listSamples(): Promise<UploadedSample[]> {
+  const stored = await run<StoredSample[]>("samples", "readonly", (store) => store.getAll());
+  return stored.map(revive).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Stores the samples, skipping any already imported; returns the samples that were new */
+export async function addSamples(inputs: SampleInput[]): Promise<UploadedSample[]> {
+  const existing = await listSamples();
+  const importedAt = new Date();
+  const created = inputs
+    .filter((input, index) => !existing.some((sample) => sameSample(sample, input)) && inputs.findIndex((other) => sameSample(other, input)) === index)
+    .map((input) => ({ ...input, id: crypto.randomUUID(), importedAt }));
+
+  await putAll("samples", created.map((sample) => ({ ...sample, importedAt: importedAt.toISOString() })));
+  return created;
+}
+
+export async function deleteSample(id: string): Promise<void> {
+  await run("samples", "readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,160 @@
+import type { AquiferType, LocationSeries, MonthlyDataPoint } from "@/lib/groundwater-repository";
+import { formatLength, formatMillimetres, formatNumber, formatPercent, formatYear, type LengthUnit } from "@/lib/format";
+import { translator, type Locale } from "@/lib/i18n";
+import { waterTableRise } from "@/lib/water-level";
+
+/** CGWB measures observation wells in May, before the monsoon, and November, after it */
+export const PRE_MONSOON_MONTH = 5;
+export const POST_MONSOON_MONTH = 11;
+
+// June–September, the south-west monsoon season
+const MONSOON_MONTHS = [6, 7, 8, 9];
+
+const DECADE = 10;
+
+/**
+ * Specific yield, the share of aquifer volume that drains under gravity, from the
+ * GEC-2015 norms for recharge estimation (mid-range values).
+ */
+export const specificYield: Record<AquiferType, number> = {
+  alluvium: 0.12,
+  basalt: 0.02,
+  granite: 0.03,
+  sandstone: 0.03,
+};
+
+const DEFAULT_AQUIFER: AquiferType = "alluvium";
+
+export interface SeasonalYear {
+  year: string;
+  /** Water level in May, in metres of the series' measure */
+  preMonsoon: number;
+  /** Water level in November, in metres of the series' measure */
+  postMonsoon: number;
+  /** Rise of the water table from May to November; negative is a fall */
+  fluctuation: number;
+  /** June–September rainfall in mm */
+  monsoonRainfall: number;
+  /** Water table fluctuation recharge in mm: specific yield × rise; 0 when the level fell */
+  rechargeMm: number;
+}
+
+export interface DecadalComparison {
+  /** Years the mean is taken over, e.g. "2015–2023" */
+  period: string;
+  years: number;
+  preMonsoonMean: number;
+  postMonsoonMean: number;
+  /** Rise of the latest level over the decadal mean; positive means more water than usual */
+  preMonsoonChange: number;
+  postMonsoonChange: number;
+}
+
+export interface SeasonalAnalysis {
+  aquifer: AquiferType;
+  specificYield: number;
+  years: SeasonalYear[];
+  latest: SeasonalYear;
+  /** Null when only one season of data exists */
+  decadal: DecadalComparison | null;
+  /** Latest recharge as a share of monsoon rainfall, 0–1 */
+  rechargeFactor: number;
+  /** Latest recharge in cubic metres per square kilometre */
+  rechargeVolumePerKm2: number;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function groupByYear(monthly: MonthlyDataPoint[]) {
+  const years = new Map<string, Map<number, MonthlyDataPoint>>();
+  for (const point of monthly) {
+    const [year, month] = point.month.split("-");
+    if (!years.has(year)) years.set(year, new Map());
+    years.get(year).set(Number(month), point);
+  }
+  return years;
+}
+
+/**
+ * Pre/post-monsoon fluctuation per year, the latest year against the mean of up to
+ * ten preceding years, and recharge by the water table fluctuation method.
+ * Null when no year has both a May and a November reading.
+ */
+export function analyseSeasons(series: LocationSeries): SeasonalAnalysis | null {
+  const aquifer = series.aquifer ?? DEFAULT_AQUIFER;
+  const yieldFraction = specificYield[aquifer];
+
+  const years = [...groupByYear(series.monthly)].flatMap(([year, months]): SeasonalYear[] => {
+    const pre = months.get(PRE_MONSOON_MONTH);
+    const post = months.get(POST_MONSOON_MONTH);
+    if (!pre || !post) return [];
+    const fluctuation = round2(waterTableRise(pre.level, post.level, series.levelMeasure));
+    const monsoonRainfall = MONSOON_MONTHS.reduce((sum, month) => sum + (months.get(month)?.rainfall ?? 0), 0);
+    return [{
+      year,
+      preMonsoon: pre.level,
+      postMonsoon: post.level,
+      fluctuation,
+      monsoonRainfall: round1(monsoonRainfall),
+      rechargeMm: round1(Math.max(0, fluctuation) * yieldFraction * 1000),
+    }];
+  });
+  if (years.length === 0) return null;
+
+  const latest = years[years.length - 1];
+  const previous = years.slice(-1 - DECADE, -1);
+  const decadal: DecadalComparison | null = previous.length === 0 ? null : (() => {
+    const preMonsoonMean = round2(mean(previous.map((year) => year.preMonsoon)));
+    const postMonsoonMean = round2(mean(previous.map((year) => year.postMonsoon)));
+    return {
+      period: previous.length === 1 ? previous[0].year : `${previous[0].year}–${previous[previous.length - 1].year}`,
+      years: previous.length,
+      preMonsoonMean,
+      postMonsoonMean,
+      preMonsoonChange: round2(waterTableRise(preMonsoonMean, latest.preMonsoon, series.levelMeasure)),
+      postMonsoonChange: round2(waterTableRise(postMonsoonMean, latest.postMonsoon, series.levelMeasure)),
+    };
+  })();
+
+  return {
+    aquifer,
+    specificYield: yieldFraction,
+    years,
+    latest,
+    decadal,
+    rechargeFactor: latest.monsoonRainfall > 0 ? round2(latest.rechargeMm / latest.monsoonRainfall) : 0,
+    // 1 mm over 1 km² is 1,000 m³
+    rechargeVolumePerKm2: Math.round(latest.rechargeMm * 1000),
+  };
+}
+
+/** A short summary of the latest season for the chat */
+export function describeSeasons(analysis: SeasonalAnalysis, locale: Locale, unit: LengthUnit): string {
+  const t = translator(locale);
+  const { latest, decadal } = analysis;
+  const length = (metres: number, signed = false) => formatLength(locale, metres, unit, { signed });
+  const parts = [
+    t("seasonal.summary.latest", {
+      year: formatYear(locale, latest.year),
+      pre: length(latest.preMonsoon),
+      post: length(latest.postMonsoon),
+      fluctuation: length(latest.fluctuation, true),
+    }),
+  ];
+  if (decadal) {
+    parts.push(t("seasonal.summary.decadal", {
+      period: decadal.period.replace(/\d+/g, (year) => formatYear(locale, year)),
+      pre: length(decadal.preMonsoonChange, true),
+      post: length(decadal.postMonsoonChange, true),
+    }));
+  }
+  parts.push(t("seasonal.summary.recharge", {
+    aquifer: t(`aquifer.${analysis.aquifer}`).toLocaleLowerCase(locale),
+    yield: formatNumber(locale, analysis.specificYield),
+    recharge: formatMillimetres(locale, latest.rechargeMm),
+    percent: formatPercent(locale, analysis.rechargeFactor * 100),
+  }));
+  return parts.join(" ");
+}
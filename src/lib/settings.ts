@@ -0,0 +1,71 @@
+import type { ForecastMethod } from "@/lib/forecasting";
+import type { ConcentrationUnit, LengthUnit } from "@/lib/format";
+import type { Locale } from "@/lib/i18n";
+import type { RecognizerBackend } from "@/lib/speech-recognizer";
+import type { WaterStandard } from "@/lib/water-standards";
+import type { WqiMethod } from "@/lib/water-quality-index";
+
+export interface Settings {
+  /** Language of the interface and of speech recognition; replies follow the question */
+  locale: Locale;
+  /** Switch the interface to the language a question is asked in */
+  followQueryLanguage: boolean;
+  /** Read bot replies aloud as they arrive */
+  autoSpeak: boolean;
+  /** Speech-to-text engine; falls back to the other one when the browser lacks it */
+  recognizer: RecognizerBackend;
+  /** Drinking-water standard that quality readings are classified against */
+  waterStandard: WaterStandard;
+  wqiMethod: WqiMethod;
+  /** Model behind the forecast chart and the projection quoted in chat */
+  forecastMethod: ForecastMethod;
+  lengthUnit: LengthUnit;
+  concentrationUnit: ConcentrationUnit;
+}
+
+const STORAGE_KEY = "aqua-insight:settings";
+
+const defaults: Settings = {
+  locale: "en",
+  followQueryLanguage: false,
+  autoSpeak: false,
+  recognizer: "web-speech",
+  waterStandard: "bis",
+  wqiMethod: "weighted-arithmetic",
+  forecastMethod: "linear-seasonal",
+  lengthUnit: "m",
+  concentrationUnit: "mg/L",
+};
+
+const load = (): Settings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+let current: Settings = load();
+const listeners = new Set<() => void>();
+
+export function getSettings(): Settings {
+  return current;
+}
+
+export function updateSettings(patch: Partial<Settings>) {
+  current = { ...current, ...patch };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Private browsing can refuse storage; keep the in-memory value
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
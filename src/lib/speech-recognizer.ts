@@ -0,0 +1,134 @@
+import type { Locale } from "@/lib/i18n";
+
+/**
+ * Speech-to-text behind one interface so the chat does not care whether audio goes
+ * to the browser's (usually cloud) recognizer or to a model running in the page.
+ */
+export type RecognizerBackend = "web-speech" | "vosk";
+
+export type RecognitionLanguage = `${Locale}-IN`;
+
+export interface RecognitionResult {
+  transcript: string;
+  /** False while the user is still speaking and the text may change */
+  isFinal: boolean;
+}
+
+export interface RecognizerCallbacks {
+  onResult: (result: RecognitionResult) => void;
+  /** Error codes follow the Web Speech API: "not-allowed", "no-speech", "network", … */
+  onError: (error: string) => void;
+  /** Capture stopped, whether by `stop()`, silence or an error */
+  onEnd: () => void;
+}
+
+export interface SpeechRecognizer {
+  readonly backend: RecognizerBackend;
+  readonly lang: RecognitionLanguage;
+  /** Starts capturing; a non-continuous session ends after the first final result */
+  start(options: { continuous: boolean }): void;
+  stop(): void;
+  /** Releases the microphone and any model resources */
+  dispose(): void;
+}
+
+export const recognizerBackends: RecognizerBackend[] = ["web-speech", "vosk"];
+
+// The parts of the Web Speech API used here; TypeScript's DOM library does not ship it
+interface WebSpeechResult {
+  isFinal: boolean;
+  [alternative: number]: { transcript: string };
+}
+
+interface WebSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<WebSpeechResult> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  abort(): void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition: new () => WebSpeechRecognition;
+    webkitSpeechRecognition: new () => WebSpeechRecognition;
+  }
+}
+
+const hasWebSpeech = () =>
+  typeof window !== "undefined" && ("SpeechRecognition" in window || "webkitSpeechRecognition" in window);
+
+const hasWasmCapture = () =>
+  typeof window !== "undefined" &&
+  typeof WebAssembly === "object" &&
+  typeof Worker === "function" &&
+  Boolean(navigator.mediaDevices?.getUserMedia);
+
+export function isRecognizerSupported(backend: RecognizerBackend): boolean {
+  return backend === "web-speech" ? hasWebSpeech() : hasWasmCapture();
+}
+
+/** The preferred backend if this browser can run it, otherwise whichever one it can */
+export function resolveRecognizerBackend(preferred: RecognizerBackend): RecognizerBackend | null {
+  if (isRecognizerSupported(preferred)) return preferred;
+  return recognizerBackends.find(isRecognizerSupported) ?? null;
+}
+
+class WebSpeechRecognizer implements SpeechRecognizer {
+  readonly backend = "web-speech";
+  private readonly recognition: WebSpeechRecognition;
+
+  constructor(readonly lang: RecognitionLanguage, callbacks: RecognizerCallbacks) {
+    const Recognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+    this.recognition = new Recognition();
+    this.recognition.lang = lang;
+    this.recognition.interimResults = true;
+
+    this.recognition.onresult = (event) => {
+      let interim = "";
+      let final = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        if (result.isFinal) final += result[0].transcript;
+        else interim += result[0].transcript;
+      }
+      callbacks.onResult(final ? { transcript: final, isFinal: true } : { transcript: interim, isFinal: false });
+    };
+    // "aborted" is us stopping the recognizer, not a failure
+    this.recognition.onerror = (event) => event.error !== "aborted" && callbacks.onError(event.error);
+    this.recognition.onend = () => callbacks.onEnd();
+  }
+
+  start({ continuous }: { continuous: boolean }) {
+    this.recognition.continuous = continuous;
+    this.recognition.start();
+  }
+
+  stop() {
+    this.recognition.abort();
+  }
+
+  dispose() {
+    this.recognition.onend = null;
+    this.recognition.abort();
+  }
+}
+
+/**
+ * Creates a recognizer for the backend. The offline backend is loaded on demand so
+ * its WASM runtime and model never reach users who stay on the browser recognizer.
+ */
+export async function createSpeechRecognizer(
+  backend: RecognizerBackend,
+  lang: RecognitionLanguage,
+  callbacks: RecognizerCallbacks
+): Promise<SpeechRecognizer> {
+  if (backend === "vosk") {
+    const { VoskRecognizer } = await import("@/lib/vosk-recognizer");
+    return VoskRecognizer.create(lang, callbacks);
+  }
+  return new WebSpeechRecognizer(lang, callbacks);
+}
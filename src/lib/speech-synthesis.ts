@@ -0,0 +1,67 @@
+import type { Locale } from "@/lib/i18n";
+
+export type SpeechLanguage = `${Locale}-IN`;
+
+export interface SpeakOptions {
+  onStart?: () => void;
+  onEnd?: () => void;
+}
+
+export function isSpeechSynthesisSupported(): boolean {
+  return typeof window !== "undefined" && "speechSynthesis" in window && "SpeechSynthesisUtterance" in window;
+}
+
+/**
+ * Best voice for a BCP 47 tag: an exact match first, then any voice for the same
+ * language ("hi-IN" falls back to "hi"). Returns undefined when none is installed.
+ */
+export function findVoice(lang: SpeechLanguage): SpeechSynthesisVoice | undefined {
+  if (!isSpeechSynthesisSupported()) return undefined;
+
+  const voices = window.speechSynthesis.getVoices();
+  const normalized = (voice: SpeechSynthesisVoice) => voice.lang.replace("_", "-").toLowerCase();
+  const base = lang.split("-")[0].toLowerCase();
+
+  return (
+    voices.find((voice) => normalized(voice) === lang.toLowerCase()) ??
+    voices.find((voice) => normalized(voice).split("-")[0] === base)
+  );
+}
+
+/** Speaks the text, cancelling anything already being spoken. Returns false if it cannot be spoken. */
+export function speak(text: string, lang: SpeechLanguage, { onStart, onEnd }: SpeakOptions = {}): boolean {
+  const voice = findVoice(lang);
+  if (!voice) return false;
+
+  const synth = window.speechSynthesis;
+  synth.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.voice = voice;
+  utterance.lang = lang;
+  utterance.onstart = () => onStart?.();
+  utterance.onend = () => onEnd?.();
+  utterance.onerror = (event) => {
+    // Cancelling to speak something else is not a failure worth logging
+    if (event.error !== "canceled" && event.error !== "interrupted") {
+      console.error("Speech synthesis error:", event.error);
+    }
+    onEnd?.();
+  };
+
+  synth.speak(utterance);
+  return true;
+}
+
+export function stopSpeaking() {
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.cancel();
+  }
+}
+
+/** Voices load asynchronously in most browsers; the callback fires when the list changes */
+export function onVoicesChanged(callback: () => void): () => void {
+  if (!isSpeechSynthesisSupported()) return () => {};
+  window.speechSynthesis.addEventListener("voiceschanged", callback);
+  return () => window.speechSynthesis.removeEventListener("voiceschanged", callback);
+}
@@ -0,0 +1,102 @@
+import { formatDate } from "@/lib/format";
+import { gazetteer } from "@/lib/gazetteer";
+import { parameterIds, type ParameterId } from "@/lib/groundwater-parameters";
+import { translator, type Locale } from "@/lib/i18n";
+import type { TimeRange } from "@/lib/intent-parser";
+import type { LevelMeasure } from "@/lib/water-level";
+import { classifyParameter, isStandardParameter, waterStandards, type WaterStandard } from "@/lib/water-standards";
+
+/** A well or lab reading the user imported from their own spreadsheet */
+export interface UploadedSample {
+  id: string;
+  /** Place as written in the file */
+  location: string;
+  /** Gazetteer id when the place (or its district) is known, so chat can find the sample */
+  locationId?: string;
+  /** Sampling date, `YYYY-MM-DD` */
+  date: string;
+  /** Metres, read as `levelMeasure` says */
+  waterLevel?: number;
+  levelMeasure?: LevelMeasure;
+  /** Readings converted to the units of the parameter registry */
+  readings: Partial<Record<ParameterId, number>>;
+  /** Name of the file the sample came from */
+  source: string;
+  importedAt: Date;
+}
+
+export type SampleInput = Omit<UploadedSample, "id" | "importedAt">;
+
+export interface SampleFilter {
+  /** Gazetteer ids; samples from the same district count as well */
+  locationIds?: string[];
+  timeRange?: TimeRange;
+}
+
+const sampleYear = (sample: SampleInput) => Number(sample.date.slice(0, 4));
+
+// "Nashik" should also find samples from the villages around it
+const matchesPlace = (sample: SampleInput, locationId: string) => {
+  if (sample.locationId === locationId) return true;
+  const place = gazetteer.get(locationId);
+  const sampled = sample.locationId ? gazetteer.get(sample.locationId) : undefined;
+  return Boolean(place && sampled && place.state === sampled.state && place.district === sampled.district);
+};
+
+/** Samples matching every criterion given, oldest first */
+export function filterSamples<T extends SampleInput>(samples: T[], { locationIds = [], timeRange }: SampleFilter = {}): T[] {
+  return samples
+    .filter((sample) => locationIds.length === 0 || locationIds.some((id) => matchesPlace(sample, id)))
+    .filter((sample) => !timeRange?.from || sampleYear(sample) >= timeRange.from)
+    .filter((sample) => !timeRange?.to || sampleYear(sample) <= timeRange.to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Parameters any of the samples measured, in registry order */
+export const measuredParameters = (samples: SampleInput[]): ParameterId[] =>
+  parameterIds.filter((id) => samples.some((sample) => sample.readings[id] !== undefined));
+
+/** True when a reading breaks the standard's permissible limit, or its only limit */
+export const exceedsLimits = (sample: SampleInput, standard: WaterStandard) =>
+  parameterIds.some((id) => {
+    const value = sample.readings[id];
+    return value !== undefined && isStandardParameter(id) && classifyParameter(id, value, standard) === "unsafe";
+  });
+
+/** Two imports of the same row should not store it twice */
+export const sameSample = (a: SampleInput, b: SampleInput) =>
+  a.location === b.location &&
+  a.date === b.date &&
+  a.waterLevel === b.waterLevel &&
+  parameterIds.every((id) => a.readings[id] === b.readings[id]);
+
+/**
+ * Chat answer about the samples a query matched, oldest first as `filterSamples`
+ * returns them: how many, from how many sites and when, and how many break the
+ * drinking-water standard. `total` is every sample the user has, so an empty answer
+ * can tell "none imported" from "none here".
+ */
+export function describeSamples(
+  samples: SampleInput[],
+  { total, places, standard }: { total: number; places?: string; standard: WaterStandard },
+  locale: Locale
+): string {
+  const t = translator(locale);
+  if (total === 0) return t("chat.samples.none");
+  if (samples.length === 0) return places ? t("chat.samples.noneFor", { places }) : t("chat.samples.noneMatching");
+
+  const count = samples.length;
+  const sites = new Set(samples.map((sample) => sample.location)).size;
+  const from = samples[0].date;
+  const to = samples[samples.length - 1].date;
+  const tested = samples.some((sample) => measuredParameters([sample]).some(isStandardParameter));
+  const parts = [
+    places ? t("chat.samples.found", { count, sites, places }) : t("chat.samples.foundAll", { count, sites }),
+    from !== to && t("chat.samples.period", { from: formatDate(locale, from), to: formatDate(locale, to) }),
+    tested && t("chat.samples.exceeding", {
+      count: samples.filter((sample) => exceedsLimits(sample, standard)).length,
+      standard: waterStandards[standard].name,
+    }),
+  ];
+  return parts.filter(Boolean).join(" ");
+}
@@ -0,0 +1,124 @@
+import type { Locale } from "@/lib/i18n";
+
+/**
+ * State machine for the voice loop: idle → listening → processing → speaking.
+ * In hands-free mode the loop returns to listening after every reply instead of
+ * idling, and a spoken stop phrase parks it in `dormant`, where the recognizer
+ * keeps running but only reacts to the wake phrase.
+ */
+export type VoicePhase = "idle" | "dormant" | "listening" | "processing" | "speaking";
+
+export interface VoiceState {
+  phase: VoicePhase;
+  handsFree: boolean;
+  /** Live, not yet final transcript of what the user is saying */
+  interim: string;
+}
+
+export type VoiceEvent =
+  | { type: "PUSH_TO_TALK" }
+  | { type: "ENABLE_HANDS_FREE" }
+  | { type: "DISABLE_HANDS_FREE" }
+  | { type: "CANCEL" }
+  | { type: "INTERIM"; transcript: string }
+  | { type: "FINAL" }
+  | { type: "WAKE" }
+  | { type: "SLEEP" }
+  | { type: "RESPONSE_READY"; willSpeak: boolean }
+  | { type: "SPEECH_END" }
+  | { type: "RECOGNITION_END" }
+  | { type: "ERROR"; fatal: boolean };
+
+export const initialVoiceState: VoiceState = { phase: "idle", handsFree: false, interim: "" };
+
+// Where the loop goes once a turn is over
+const restPhase = (state: VoiceState): VoicePhase => (state.handsFree ? "listening" : "idle");
+
+export function voiceReducer(state: VoiceState, event: VoiceEvent): VoiceState {
+  switch (event.type) {
+    case "PUSH_TO_TALK":
+      return state.phase === "idle" ? { ...state, phase: "listening", interim: "" } : state;
+
+    case "ENABLE_HANDS_FREE":
+      return { phase: "listening", handsFree: true, interim: "" };
+
+    case "DISABLE_HANDS_FREE":
+    case "CANCEL":
+      return initialVoiceState;
+
+    case "INTERIM":
+      return state.phase === "listening" ? { ...state, interim: event.transcript } : state;
+
+    case "FINAL":
+      // Push-to-talk only fills the input box, so there is no reply to wait for
+      if (state.phase !== "listening") return state;
+      return { ...state, phase: state.handsFree ? "processing" : "idle", interim: "" };
+
+    case "WAKE":
+      return state.phase === "dormant" ? { ...state, phase: "listening", interim: "" } : state;
+
+    case "SLEEP":
+      return state.handsFree ? { ...state, phase: "dormant", interim: "" } : initialVoiceState;
+
+    case "RESPONSE_READY":
+      if (state.phase !== "processing") return state;
+      return { ...state, phase: event.willSpeak ? "speaking" : restPhase(state) };
+
+    case "SPEECH_END":
+      return state.phase === "speaking" ? { ...state, phase: restPhase(state) } : state;
+
+    case "RECOGNITION_END":
+      // Browsers end recognition after a pause; hands-free simply re-arms
+      if (state.phase !== "listening" && state.phase !== "dormant") return state;
+      return state.handsFree ? { ...state, interim: "" } : { ...state, phase: "idle", interim: "" };
+
+    case "ERROR":
+      if (event.fatal) return initialVoiceState;
+      return voiceReducer(state, { type: "RECOGNITION_END" });
+
+    default:
+      return state;
+  }
+}
+
+/** Whether the recognizer should be capturing audio in this phase */
+export const isCapturing = (phase: VoicePhase) => phase === "listening" || phase === "dormant";
+
+// The first phrase of each list is the one the chat suggests
+export const wakePhrases: Record<Locale, string[]> = {
+  en: ["hey aqua", "ok aqua", "okay aqua"],
+  hi: ["हे एक्वा", "सुनो एक्वा", "नमस्ते एक्वा"],
+  mr: ["ऐक एक्वा", "हे एक्वा", "नमस्कार एक्वा"],
+  ta: ["ஹே அக்வா", "கேள் அக்வா", "வணக்கம் அக்வா"],
+  te: ["హే ఆక్వా", "విను ఆక్వా", "నమస్తే ఆక్వా"],
+  bn: ["শোনো অ্যাকোয়া", "হে অ্যাকোয়া", "নমস্কার অ্যাকোয়া"],
+  kn: ["ಹೇ ಆಕ್ವಾ", "ಕೇಳು ಆಕ್ವಾ", "ನಮಸ್ಕಾರ ಆಕ್ವಾ"],
+  gu: ["સાંભળ એક્વા", "હે એક્વા", "નમસ્તે એક્વા"],
+};
+
+export const stopPhrases: Record<Locale, string[]> = {
+  en: ["stop listening", "goodbye aqua", "bye aqua"],
+  hi: ["सुनना बंद करो", "बंद करो एक्वा", "अलविदा एक्वा"],
+  mr: ["ऐकणे थांबव", "थांब एक्वा", "बाय एक्वा"],
+  ta: ["கேட்பதை நிறுத்து", "நிறுத்து அக்வா", "போய் வா அக்வா"],
+  te: ["వినడం ఆపు", "ఆపు ఆక్వా", "బై ఆక్వా"],
+  bn: ["শোনা বন্ধ করো", "থামো অ্যাকোয়া", "বিদায় অ্যাকোয়া"],
+  kn: ["ಕೇಳುವುದು ನಿಲ್ಲಿಸು", "ನಿಲ್ಲಿಸು ಆಕ್ವಾ", "ಬೈ ಆಕ್ವಾ"],
+  gu: ["સાંભળવાનું બંધ કર", "બંધ કર એક્વા", "આવજો એક્વા"],
+};
+
+const normalizePhrase = (text: string) =>
+  text.toLowerCase().replace(/[.,!?।]/g, "").replace(/\s+/g, " ").trim();
+
+/** True when the transcript contains any of the phrases, ignoring case and punctuation */
+export function containsPhrase(transcript: string, phrases: string[]): boolean {
+  const normalized = normalizePhrase(transcript);
+  return phrases.some((phrase) => normalized.includes(normalizePhrase(phrase)));
+}
+
+/** Removes a leading wake phrase so "hey aqua, water in Pune" can be asked in one breath */
+export function stripWakePhrase(transcript: string, phrases: string[]): string {
+  const normalized = normalizePhrase(transcript);
+  const phrase = phrases.map(normalizePhrase).find((candidate) => normalized.startsWith(candidate));
+  return phrase ? normalized.slice(phrase.length).trim() : transcript.trim();
+}
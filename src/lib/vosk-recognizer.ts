@@ -0,0 +1,147 @@
+import { createModel, type KaldiRecognizer, type Model } from "vosk-browser";
+import type { RecognitionLanguage, RecognizerCallbacks, SpeechRecognizer } from "@/lib/speech-recognizer";
+
+// Small Vosk models (~40 MB each). Serve them from the app itself so recognition keeps
+// working with no connection once they are cached; see the README for where to get them.
+// Only English and Hindi are configured; offline recognition fails in the other UI languages.
+const modelUrls: Partial<Record<RecognitionLanguage, string>> = {
+  "en-IN": import.meta.env.VITE_VOSK_MODEL_EN ?? "/models/vosk-model-small-en-in-0.4.tar.gz",
+  "hi-IN": import.meta.env.VITE_VOSK_MODEL_HI ?? "/models/vosk-model-small-hi-0.22.tar.gz",
+};
+
+// Give up on a push-to-talk session that hears nothing, like the browser recognizer does
+const NO_SPEECH_TIMEOUT_MS = 8000;
+
+const models = new Map<RecognitionLanguage, Promise<Model>>();
+
+// Models are shared by every recognizer for the language and kept for the page's lifetime
+function loadModel(lang: RecognitionLanguage): Promise<Model> {
+  let model = models.get(lang);
+  if (!model) {
+    const url = modelUrls[lang];
+    model = url ? createModel(url) : Promise.reject(new Error(`No offline speech model for ${lang}`));
+    model.catch(() => models.delete(lang));
+    models.set(lang, model);
+  }
+  return model;
+}
+
+interface Capture {
+  stream: MediaStream;
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  processor: ScriptProcessorNode;
+  recognizer: KaldiRecognizer;
+  timeout?: ReturnType<typeof setTimeout>;
+}
+
+const captureError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "NotAllowedError" || error.name === "SecurityError")
+    ? "not-allowed"
+    : "audio-capture";
+
+/** Offline recognizer running a Kaldi model in a web worker via WebAssembly */
+export class VoskRecognizer implements SpeechRecognizer {
+  readonly backend = "vosk";
+  private capture: Capture | null = null;
+  // True from start() until the session ends, including while the microphone prompt is open
+  private active = false;
+  // Bumped on every start/stop so a slow microphone prompt cannot revive a stopped session
+  private session = 0;
+
+  static async create(lang: RecognitionLanguage, callbacks: RecognizerCallbacks): Promise<VoskRecognizer> {
+    return new VoskRecognizer(lang, await loadModel(lang), callbacks);
+  }
+
+  private constructor(
+    readonly lang: RecognitionLanguage,
+    private readonly model: Model,
+    private readonly callbacks: RecognizerCallbacks
+  ) {}
+
+  start({ continuous }: { continuous: boolean }) {
+    if (this.active) throw new Error("Recognition has already started");
+    this.active = true;
+    const session = ++this.session;
+    this.open(session, continuous).catch((error) => {
+      if (session !== this.session) return;
+      console.error("Offline speech recognition could not start:", error);
+      this.active = false;
+      this.callbacks.onError(captureError(error));
+      this.callbacks.onEnd();
+    });
+  }
+
+  stop() {
+    this.session++;
+    if (!this.active) return;
+    this.active = false;
+    this.close();
+    this.callbacks.onEnd();
+  }
+
+  dispose() {
+    this.session++;
+    this.active = false;
+    this.close();
+  }
+
+  private async open(session: number, continuous: boolean) {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+    });
+    if (session !== this.session) {
+      stream.getTracks().forEach((track) => track.stop());
+      return;
+    }
+
+    const context = new AudioContext();
+    const recognizer = new this.model.KaldiRecognizer(context.sampleRate);
+    recognizer.on("partialresult", (message) => {
+      if (message.event !== "partialresult" || !message.result.partial) return;
+      // Speech has started, so a long utterance must not be cut off as silence
+      if (this.capture) clearTimeout(this.capture.timeout);
+      this.callbacks.onResult({ transcript: message.result.partial, isFinal: false });
+    });
+    recognizer.on("result", (message) => {
+      if (message.event !== "result" || !message.result.text) return;
+      this.callbacks.onResult({ transcript: message.result.text, isFinal: true });
+      if (!continuous) this.stop();
+    });
+    recognizer.on("error", (message) => {
+      if (message.event !== "error") return;
+      console.error("Offline speech recognition error:", message.error);
+      this.callbacks.onError("audio-capture");
+      this.stop();
+    });
+
+    const source = context.createMediaStreamSource(stream);
+    const processor = context.createScriptProcessor(4096, 1, 1);
+    processor.onaudioprocess = (event) => recognizer.acceptWaveform(event.inputBuffer);
+    source.connect(processor);
+    processor.connect(context.destination);
+
+    this.capture = { stream, context, source, processor, recognizer };
+    if (!continuous) {
+      this.capture.timeout = setTimeout(() => {
+        this.callbacks.onError("no-speech");
+        this.stop();
+      }, NO_SPEECH_TIMEOUT_MS);
+    }
+  }
+
+  /** Releases the microphone and the per-session Kaldi recognizer */
+  private close() {
+    const capture = this.capture;
+    if (!capture) return;
+    this.capture = null;
+
+    clearTimeout(capture.timeout);
+    capture.processor.onaudioprocess = null;
+    capture.processor.disconnect();
+    capture.source.disconnect();
+    capture.stream.getTracks().forEach((track) => track.stop());
+    capture.context.close();
+    capture.recognizer.remove();
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * How a series reports groundwater level. CGWB observation wells are read as depth
+ * to water in metres below ground level (mbgl), where a bigger number means less
+ * water; a water-table elevation in metres above mean sea level (mAMSL) rises with
+ * the water.
+ */
+export type LevelMeasure = "mbgl" | "mamsl";
+
+export interface LevelMeasureDefinition {
+  /** Which way a reading improves */
+  better: "lower" | "higher";
+  /**
+   * Typical spread in Indian observation wells; comparison scores are scaled to it.
+   * Water-table elevations follow the land, from the coast to the Deccan plateau.
+   */
+  range: [number, number];
+  /** Depth axes run downwards, so a rising water table still plots upwards */
+  reversedAxis: boolean;
+}
+
+export const levelMeasures: Record<LevelMeasure, LevelMeasureDefinition> = {
+  mbgl: { better: "lower", range: [0, 40], reversedAxis: true },
+  mamsl: { better: "higher", range: [0, 1000], reversedAxis: false },
+};
+
+/** Rise of the water table from one reading to a later one, in metres; negative is a fall */
+export const waterTableRise = (from: number, to: number, measure: LevelMeasure) =>
+  levelMeasures[measure].better === "higher" ? to - from : from - to;
@@ -0,0 +1,142 @@
+import type { GroundwaterDataPoint } from "@/lib/groundwater-repository";
+import {
+  standardParameters,
+  waterStandards,
+  type ComplianceStatus,
+  type Limit,
+  type StandardParameter,
+  type WaterStandard,
+} from "@/lib/water-standards";
+
+/**
+ * `weighted-arithmetic`: 0 is pure water, 100 is every parameter at its limit; lower is better.
+ * `ccme`: CCME WQI, 100 when every objective is met; higher is better.
+ */
+export type WqiMethod = "weighted-arithmetic" | "ccme";
+
+export type WqiCategory = "excellent" | "good" | "fair" | "marginal" | "poor" | "veryPoor" | "unsuitable";
+
+export interface WqiContribution {
+  parameter: StandardParameter;
+  value: number;
+  /** Acceptable limit used as the standard value or objective */
+  objective: Limit;
+  /** Share of the index, 0–1; weights of a result sum to 1 */
+  weight: number;
+  /** Quality rating q (weighted arithmetic) or excursion in percent (CCME) */
+  subIndex: number;
+  /** Points this parameter adds to the index (weighted arithmetic) or to the normalised excursion sum (CCME) */
+  contribution: number;
+}
+
+export interface WqiResult {
+  method: WqiMethod;
+  value: number;
+  category: WqiCategory;
+  contributions: WqiContribution[];
+  /** CCME scope (F1), frequency (F2) and amplitude (F3) factors */
+  factors?: { scope: number; frequency: number; amplitude: number };
+}
+
+/**
+ * Relative weights on a 1–5 scale by health significance, as used for BIS-based
+ * groundwater WQI studies in India: toxic or fluorosis-causing parameters 5,
+ * pH and iron 4, chloride 3, hardness 2.
+ */
+export const wqiWeights: Record<StandardParameter, number> = {
+  tds: 5,
+  ph: 4,
+  fluoride: 5,
+  nitrate: 5,
+  arsenic: 5,
+  iron: 4,
+  hardness: 2,
+  chloride: 3,
+  uranium: 5,
+};
+
+// pH is rated by its distance from neutral; everything else from zero
+const IDEAL_PH = 7;
+
+// Upper bounds of each band; weighted arithmetic grows with pollution, CCME shrinks
+const categoryBands: Record<WqiMethod, Array<[number, WqiCategory]>> = {
+  "weighted-arithmetic": [[50, "excellent"], [100, "good"], [200, "poor"], [300, "veryPoor"], [Infinity, "unsuitable"]],
+  ccme: [[44, "poor"], [64, "marginal"], [79, "fair"], [94, "good"], [Infinity, "excellent"]],
+};
+
+/** Names, how each index is calculated and its bands are in the catalogs under `wqi.method.<id>` */
+export const wqiMethods: WqiMethod[] = ["weighted-arithmetic", "ccme"];
+
+/** Whether a category counts as good, borderline or bad water, for colouring */
+export const wqiCategoryStatus: Record<WqiCategory, ComplianceStatus> = {
+  excellent: "acceptable",
+  good: "acceptable",
+  fair: "permissible",
+  marginal: "permissible",
+  poor: "unsafe",
+  veryPoor: "unsafe",
+  unsuitable: "unsafe",
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function wqiCategory(method: WqiMethod, value: number): WqiCategory {
+  return categoryBands[method].find(([upper]) => value <= upper)[1];
+}
+
+const measured = (point: GroundwaterDataPoint, standard: WaterStandard) =>
+  standardParameters.flatMap((parameter) => {
+    const value = point[parameter];
+    const objective = waterStandards[standard].limits[parameter]?.acceptable;
+    return value === undefined || objective === undefined ? [] : [{ parameter, value, objective }];
+  });
+
+function weightedArithmetic(readings: ReturnType<typeof measured>): Omit<WqiResult, "method" | "category"> {
+  const totalWeight = readings.reduce((sum, reading) => sum + wqiWeights[reading.parameter], 0);
+  const contributions = readings.map(({ parameter, value, objective }) => {
+    const subIndex = Array.isArray(objective)
+      ? (100 * Math.abs(value - IDEAL_PH)) / (objective[1] - IDEAL_PH)
+      : (100 * value) / objective;
+    const weight = wqiWeights[parameter] / totalWeight;
+    return { parameter, value, objective, weight, subIndex: round1(subIndex), contribution: round1(weight * subIndex) };
+  });
+  return { value: round1(contributions.reduce((sum, item) => sum + item.weight * item.subIndex, 0)), contributions };
+}
+
+// How far a failed reading is past its objective: 0.2 is 20% over
+const excursion = (value: number, objective: Limit) => {
+  if (!Array.isArray(objective)) return value > objective ? value / objective - 1 : 0;
+  if (value < objective[0]) return objective[0] / value - 1;
+  return value > objective[1] ? value / objective[1] - 1 : 0;
+};
+
+function ccme(readings: ReturnType<typeof measured>): Omit<WqiResult, "method" | "category"> {
+  const count = readings.length;
+  const contributions = readings.map(({ parameter, value, objective }) => {
+    const amount = excursion(value, objective);
+    return { parameter, value, objective, weight: 1 / count, subIndex: round1(amount * 100), contribution: amount / count };
+  });
+  const failed = contributions.filter((item) => item.subIndex > 0).length;
+  const scope = (100 * failed) / count;
+  const frequency = scope;
+  const normalisedExcursions = contributions.reduce((sum, item) => sum + item.contribution, 0);
+  const amplitude = normalisedExcursions / (0.01 * normalisedExcursions + 0.01);
+  const value = 100 - Math.sqrt(scope ** 2 + frequency ** 2 + amplitude ** 2) / 1.732;
+  return {
+    value: round1(Math.max(0, value)),
+    contributions: contributions.map((item) => ({ ...item, contribution: Math.round(item.contribution * 1000) / 1000 })),
+    factors: { scope: round1(scope), frequency: round1(frequency), amplitude: round1(amplitude) },
+  };
+}
+
+/** Null for forecast points, which project TDS alone, and for readings the standard has no limits for */
+export function computeWqi(
+  point: GroundwaterDataPoint,
+  method: WqiMethod = "weighted-arithmetic",
+  standard: WaterStandard = "bis"
+): WqiResult | null {
+  const readings = measured(point, standard);
+  if (point.predicted || readings.length === 0) return null;
+  const result = method === "ccme" ? ccme(readings) : weightedArithmetic(readings);
+  return { method, category: wqiCategory(method, result.value), ...result };
+}
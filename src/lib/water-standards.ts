@@ -0,0 +1,139 @@
+import type { GroundwaterDataPoint } from "@/lib/groundwater-repository";
+import { formatParameter, type ParameterId } from "@/lib/groundwater-parameters";
+import { translator, type Locale, type Translate } from "@/lib/i18n";
+
+/** Parameters with a drinking-water limit in at least one standard */
+export type StandardParameter = Exclude<ParameterId, "ec" | "dissolvedOxygen">;
+
+export type WaterStandard = "bis" | "who";
+
+export type ComplianceStatus = "acceptable" | "permissible" | "unsafe";
+
+/** An upper limit, or an allowed [min, max] band (pH) */
+export type Limit = number | [number, number];
+
+export interface ParameterLimits {
+  acceptable: Limit;
+  /** Relaxed limit when no alternative source exists; absent means no relaxation */
+  permissible?: Limit;
+}
+
+export interface StandardDefinition {
+  name: string;
+  reference: string;
+  limits: Partial<Record<StandardParameter, ParameterLimits>>;
+}
+
+export const standardParameters: StandardParameter[] = [
+  "tds", "ph", "fluoride", "nitrate", "arsenic", "iron", "hardness", "chloride", "uranium",
+];
+
+export const isStandardParameter = (id: ParameterId): id is StandardParameter =>
+  (standardParameters as ParameterId[]).includes(id);
+
+export const waterStandards: Record<WaterStandard, StandardDefinition> = {
+  bis: {
+    name: "BIS IS 10500",
+    reference: "IS 10500:2012 Drinking Water Specification, as amended",
+    limits: {
+      tds: { acceptable: 500, permissible: 2000 },
+      ph: { acceptable: [6.5, 8.5] },
+      fluoride: { acceptable: 1.0, permissible: 1.5 },
+      nitrate: { acceptable: 45 },
+      arsenic: { acceptable: 0.01 },
+      iron: { acceptable: 1.0 },
+      hardness: { acceptable: 200, permissible: 600 },
+      chloride: { acceptable: 250, permissible: 1000 },
+      uranium: { acceptable: 0.03 },
+    },
+  },
+  // WHO sets health-based guideline values only for some parameters; TDS, pH, iron
+  // and chloride use the taste and acceptability thresholds from the same guidelines
+  who: {
+    name: "WHO",
+    reference: "WHO Guidelines for Drinking-water Quality, 4th edition",
+    limits: {
+      tds: { acceptable: 600, permissible: 1000 },
+      ph: { acceptable: [6.5, 8.5] },
+      fluoride: { acceptable: 1.5 },
+      nitrate: { acceptable: 50 },
+      arsenic: { acceptable: 0.01 },
+      iron: { acceptable: 0.3 },
+      chloride: { acceptable: 250 },
+      uranium: { acceptable: 0.03 },
+    },
+  },
+};
+
+export interface ParameterCompliance {
+  parameter: StandardParameter;
+  value: number;
+  status: ComplianceStatus;
+  limits: ParameterLimits;
+}
+
+const within = (value: number, limit: Limit) =>
+  Array.isArray(limit) ? value >= limit[0] && value <= limit[1] : value <= limit;
+
+/** Null when the standard sets no limit for the parameter */
+export function classifyParameter(
+  parameter: StandardParameter,
+  value: number,
+  standard: WaterStandard = "bis"
+): ComplianceStatus | null {
+  const limits = waterStandards[standard].limits[parameter];
+  if (!limits) return null;
+  if (within(value, limits.acceptable)) return "acceptable";
+  if (limits.permissible !== undefined && within(value, limits.permissible)) return "permissible";
+  return "unsafe";
+}
+
+/** Classifies every parameter the reading has and the standard limits */
+export function assessCompliance(point: GroundwaterDataPoint, standard: WaterStandard = "bis"): ParameterCompliance[] {
+  return standardParameters.flatMap((parameter) => {
+    const value = point[parameter];
+    const status = value === undefined ? null : classifyParameter(parameter, value, standard);
+    return status ? [{ parameter, value, status, limits: waterStandards[standard].limits[parameter] }] : [];
+  });
+}
+
+const severity: Record<ComplianceStatus, number> = { acceptable: 0, permissible: 1, unsafe: 2 };
+
+export const worstStatus = (statuses: ComplianceStatus[]): ComplianceStatus =>
+  statuses.reduce<ComplianceStatus>((worst, status) => (severity[status] > severity[worst] ? status : worst), "acceptable");
+
+export const statusColor = (status: ComplianceStatus) => `hsl(var(--status-${status}))`;
+
+/** "500 mg/L", "6.5–8.5" */
+export const formatLimit = (parameter: StandardParameter, limit: Limit) =>
+  formatParameter(parameter, Array.isArray(limit) ? `${limit[0]}–${limit[1]}` : limit);
+
+const listReadings = (results: ParameterCompliance[], t: Translate) =>
+  results
+    .map(({ parameter, value, status, limits }) => {
+      // Quote the limit the reading actually broke
+      const relaxed = status === "unsafe" && limits.permissible !== undefined;
+      return t("compliance.summary.reading", {
+        name: t(`parameter.${parameter}.name`),
+        value: formatParameter(parameter, value),
+        limit: relaxed ? "permissible" : "acceptable",
+        threshold: formatLimit(parameter, relaxed ? limits.permissible : limits.acceptable),
+      });
+    })
+    .join(", ");
+
+/** One or two sentences naming every parameter outside its acceptable limit */
+export function describeCompliance(results: ParameterCompliance[], locale: Locale): string {
+  const t = translator(locale);
+  const acceptable = results.filter((result) => result.status === "acceptable").length;
+  const permissible = results.filter((result) => result.status === "permissible");
+  const unsafe = results.filter((result) => result.status === "unsafe");
+
+  if (permissible.length === 0 && unsafe.length === 0) {
+    return t("compliance.summary.allAcceptable", { count: results.length });
+  }
+  const parts = [t("compliance.summary.acceptable", { acceptable, total: results.length })];
+  if (permissible.length > 0) parts.push(t("compliance.summary.permissibleOnly", { readings: listReadings(permissible, t) }));
+  if (unsafe.length > 0) parts.push(t("compliance.summary.unsafe", { readings: listReadings(unsafe, t) }));
+  return parts.join(" ");
+}
@@ -1,16 +1,34 @@
-import React, { useState } from 'react';
+import React, { useEffect } from 'react';
+import { Navigate, useParams } from 'react-router-dom';
 import { GroundwaterChat } from '@/components/GroundwaterChat';
+import { ChatHistorySidebar } from '@/components/ChatHistorySidebar';
+import { SidebarInset, SidebarProvider } from '@/components/ui/sidebar';
+import { newConversationId } from '@/lib/chat-store';
+import { useAlertMonitor } from '@/hooks/use-alerts';
+import { useI18n } from '@/hooks/use-i18n';
 
 const Index = () => {
-  const [language, setLanguage] = useState<'en' | 'hi'>('en');
+  const { id } = useParams<{ id: string }>();
+  const { locale } = useI18n();
+  useAlertMonitor(locale);
+
+  // Lets the browser pick fonts, hyphenation and screen-reader voices for the script
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Every chat has an address; "/" starts a new one that is saved on the first question
+  if (!id) {
+    return <Navigate to={`/chat/${newConversationId()}`} replace />;
+  }
 
   return (
-    <div className="min-h-screen bg-gradient-subtle">
-      <GroundwaterChat 
-        language={language} 
-        onLanguageChange={setLanguage} 
-      />
-    </div>
+    <SidebarProvider>
+      <ChatHistorySidebar activeId={id} />
+      <SidebarInset className="bg-gradient-subtle">
+        <GroundwaterChat key={id} conversationId={id} />
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
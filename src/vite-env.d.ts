@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** URL of the Vosk model archive used for offline English recognition */
+  readonly VITE_VOSK_MODEL_EN?: string;
+  /** URL of the Vosk model archive used for offline Hindi recognition */
+  readonly VITE_VOSK_MODEL_HI?: string;
+  /** MapLibre style URL for the map panel, e.g. a vector tile style */
+  readonly VITE_MAP_STYLE_URL?: string;
+  /** XYZ raster tile template for the map panel, used when no style URL is set */
+  readonly VITE_MAP_TILE_URL?: string;
+  /** Attribution shown with the raster tiles */
+  readonly VITE_MAP_ATTRIBUTION?: string;
+}
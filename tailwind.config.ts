@@ -58,6 +58,17 @@ export default {
           border: "hsl(var(--sidebar-border))",
           ring: "hsl(var(--sidebar-ring))",
         },
+        status: {
+          acceptable: "hsl(var(--status-acceptable))",
+          permissible: "hsl(var(--status-permissible))",
+          unsafe: "hsl(var(--status-unsafe))",
+        },
+        stress: {
+          safe: "hsl(var(--stress-safe))",
+          "semi-critical": "hsl(var(--stress-semi-critical))",
+          critical: "hsl(var(--stress-critical))",
+          "over-exploited": "hsl(var(--stress-over-exploited))",
+        },
       },
       borderRadius: {
         lg: "var(--radius)",